@@ -0,0 +1,7 @@
+drop table if exists {{systiva}}.fnd_global_settings;
+drop table if exists {{systiva}}.fnd_business_unit_settings;
+drop table if exists {{systiva}}.fnd_enterprise_products_services;
+drop table if exists {{systiva}}.fnd_services;
+drop table if exists {{systiva}}.fnd_products;
+drop table if exists {{systiva}}.fnd_enterprise;
+drop table if exists {{systiva}}.fnd_accounts;
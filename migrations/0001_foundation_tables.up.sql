@@ -0,0 +1,60 @@
+-- Master data read by the accounts, enterprises, products, services,
+-- business unit, enterprise-product-service and global settings services.
+create schema if not exists {{systiva}};
+
+create table if not exists {{systiva}}.fnd_accounts (
+    account_id serial primary key,
+    account_name text not null,
+    client_id text,
+    client_name text,
+    contact_name text,
+    contact_title text,
+    contact_email text,
+    contact_phone text,
+    license_id text
+);
+
+create table if not exists {{systiva}}.fnd_enterprise (
+    enterprise_id serial primary key,
+    enterprise_name text not null
+);
+
+create table if not exists {{systiva}}.fnd_products (
+    product_id serial primary key,
+    product_name text not null
+);
+
+create table if not exists {{systiva}}.fnd_services (
+    service_id serial primary key,
+    service_name text not null
+);
+
+create table if not exists {{systiva}}.fnd_enterprise_products_services (
+    id serial primary key,
+    enterprise_id integer not null,
+    product_id integer not null,
+    service_id integer not null
+);
+
+create table if not exists {{systiva}}.fnd_business_unit_settings (
+    bu_id serial primary key,
+    client_id text,
+    enterprise_id text,
+    entities text[] not null default '{}',
+    created_by text,
+    creation_date timestamptz not null default now(),
+    last_updated_by text,
+    last_update_date timestamptz not null default now()
+);
+
+create table if not exists {{systiva}}.fnd_global_settings (
+    gs_id uuid primary key,
+    account_id text,
+    account_name text,
+    enterprise_id text,
+    enterprise_name text,
+    entities text[] not null default '{}',
+    categories jsonb not null default '{}'::jsonb,
+    creation_date timestamptz not null default now(),
+    last_update_date timestamptz not null default now()
+);
@@ -0,0 +1,6 @@
+drop table if exists {{devops}}.user_group;
+drop table if exists {{devops}}.groups;
+drop table if exists {{devops}}.users;
+drop table if exists {{devops}}.pipeline_config;
+drop table if exists {{devops}}.pipeline_yaml;
+drop table if exists {{devops}}.pipeline_template;
@@ -0,0 +1,58 @@
+-- Pipeline templates, their YAML and config, plus users and groups.
+create schema if not exists {{devops}};
+
+create table if not exists {{devops}}.pipeline_template (
+    template_id text primary key,
+    name text not null,
+    description text,
+    enterprise_name text,
+    entity text,
+    deployment_type text,
+    creation_date timestamptz not null default now(),
+    status text,
+    flow_template_id text
+);
+
+create table if not exists {{devops}}.pipeline_yaml (
+    template_id text primary key,
+    yaml text not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create table if not exists {{devops}}.pipeline_config (
+    id text primary key,
+    config jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create table if not exists {{devops}}.users (
+    user_id uuid primary key,
+    username text not null,
+    first_name text,
+    middle_name text,
+    last_name text,
+    email text,
+    status text not null default 'ACTIVE',
+    locked boolean not null default false,
+    start_date text,
+    end_date text,
+    group_name text,
+    updated_at timestamptz not null default now()
+);
+
+create table if not exists {{devops}}.groups (
+    group_id uuid primary key,
+    name text not null,
+    description text
+);
+
+create table if not exists {{devops}}.user_group (
+    group_id text not null,
+    username text not null,
+    name text,
+    description text,
+    enterprise_id text,
+    primary key (group_id, username)
+);
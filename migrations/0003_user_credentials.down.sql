@@ -0,0 +1 @@
+drop table if exists {{devops}}.user_credentials;
@@ -0,0 +1,6 @@
+-- scrypt password hashes, one row per user.
+create table if not exists {{devops}}.user_credentials (
+    user_id text primary key,
+    password_hash text not null,
+    updated_at timestamptz not null default now()
+);
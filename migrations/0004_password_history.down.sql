@@ -0,0 +1,3 @@
+alter table {{devops}}.user_credentials
+    drop column if exists must_change,
+    drop column if exists password_history;
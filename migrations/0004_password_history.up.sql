@@ -0,0 +1,4 @@
+-- Previous hashes (newest first) and the forced-change flag set by admin resets.
+alter table {{devops}}.user_credentials
+    add column if not exists password_history text[] not null default '{}',
+    add column if not exists must_change boolean not null default false;
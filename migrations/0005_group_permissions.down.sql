@@ -0,0 +1 @@
+alter table {{devops}}.groups drop column if exists permissions;
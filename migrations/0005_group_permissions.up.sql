@@ -0,0 +1,3 @@
+-- Permissions (resource:read|write|admin) granted to members of each group.
+alter table {{devops}}.groups
+    add column if not exists permissions text[] not null default '{}';
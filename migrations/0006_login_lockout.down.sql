@@ -0,0 +1,6 @@
+drop table if exists {{devops}}.user_lock_events;
+alter table {{devops}}.user_credentials
+    drop column if exists failed_since,
+    drop column if exists failed_attempts;
+alter table {{devops}}.users
+    drop column if exists locked_until;
@@ -0,0 +1,16 @@
+-- Failed-login tracking, timed locks and the lock/unlock history.
+alter table {{devops}}.users
+    add column if not exists locked_until timestamptz;
+alter table {{devops}}.user_credentials
+    add column if not exists failed_attempts integer not null default 0,
+    add column if not exists failed_since timestamptz;
+create table if not exists {{devops}}.user_lock_events (
+    event_id uuid primary key,
+    user_id text not null,
+    action text not null,
+    reason text not null,
+    actor text,
+    created_at timestamptz not null default now()
+);
+create index if not exists user_lock_events_user_idx
+    on {{devops}}.user_lock_events (user_id, created_at);
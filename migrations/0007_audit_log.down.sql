@@ -0,0 +1 @@
+drop table if exists {{systiva}}.audit_log;
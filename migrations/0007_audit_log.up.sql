@@ -0,0 +1,17 @@
+-- Append-only record of every mutation made through the API.
+create table if not exists {{systiva}}.audit_log (
+    audit_id uuid primary key,
+    request_id text,
+    actor text,
+    method text not null,
+    path text not null,
+    entity text not null,
+    entity_id text,
+    action text not null,
+    changes jsonb not null default '{}',
+    created_at timestamptz not null default now()
+);
+create index if not exists audit_log_entity_idx
+    on {{systiva}}.audit_log (entity, created_at);
+create index if not exists audit_log_actor_idx
+    on {{systiva}}.audit_log (actor, created_at);
@@ -0,0 +1,13 @@
+-- Dropping the columns also drops their indexes.
+alter table {{devops}}.pipeline_template
+    drop column if exists search_vector;
+alter table {{devops}}.users
+    drop column if exists search_vector;
+alter table {{systiva}}.fnd_services
+    drop column if exists search_vector;
+alter table {{systiva}}.fnd_products
+    drop column if exists search_vector;
+alter table {{systiva}}.fnd_enterprise
+    drop column if exists search_vector;
+alter table {{systiva}}.fnd_accounts
+    drop column if exists search_vector;
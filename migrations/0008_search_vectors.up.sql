@@ -0,0 +1,61 @@
+-- Weighted full-text vectors for GET /api/search: the display name ranks
+-- as 'A', other searchable text as 'B'. Punctuation is turned into spaces
+-- first so "jane.doe@acme.io" is findable by "jane", "doe" or "acme", the
+-- same way the filesystem index tokenizes it.
+alter table {{systiva}}.fnd_accounts
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(account_name, ''), '[^[:alnum:]]+', ' ', 'g')), 'A') ||
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(client_name, '') || ' ' || coalesce(contact_name, '') ||
+            ' ' || coalesce(contact_email, ''),
+            '[^[:alnum:]]+', ' ', 'g')), 'B')
+    ) stored;
+create index if not exists fnd_accounts_search_idx
+    on {{systiva}}.fnd_accounts using gin (search_vector);
+
+alter table {{systiva}}.fnd_enterprise
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(enterprise_name, ''), '[^[:alnum:]]+', ' ', 'g')), 'A')
+    ) stored;
+create index if not exists fnd_enterprise_search_idx
+    on {{systiva}}.fnd_enterprise using gin (search_vector);
+
+alter table {{systiva}}.fnd_products
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(product_name, ''), '[^[:alnum:]]+', ' ', 'g')), 'A')
+    ) stored;
+create index if not exists fnd_products_search_idx
+    on {{systiva}}.fnd_products using gin (search_vector);
+
+alter table {{systiva}}.fnd_services
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(service_name, ''), '[^[:alnum:]]+', ' ', 'g')), 'A')
+    ) stored;
+create index if not exists fnd_services_search_idx
+    on {{systiva}}.fnd_services using gin (search_vector);
+
+alter table {{devops}}.users
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(username, ''), '[^[:alnum:]]+', ' ', 'g')), 'A') ||
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(first_name, '') || ' ' || coalesce(last_name, '') ||
+            ' ' || coalesce(email, ''),
+            '[^[:alnum:]]+', ' ', 'g')), 'B')
+    ) stored;
+create index if not exists users_search_idx
+    on {{devops}}.users using gin (search_vector);
+
+alter table {{devops}}.pipeline_template
+    add column if not exists search_vector tsvector generated always as (
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(name, ''), '[^[:alnum:]]+', ' ', 'g')), 'A') ||
+        setweight(to_tsvector('simple', regexp_replace(
+            coalesce(description, ''), '[^[:alnum:]]+', ' ', 'g')), 'B')
+    ) stored;
+create index if not exists pipeline_template_search_idx
+    on {{devops}}.pipeline_template using gin (search_vector);
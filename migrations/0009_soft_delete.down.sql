@@ -0,0 +1,18 @@
+alter table {{devops}}.users
+    drop column if exists deleted_by,
+    drop column if exists deleted_at;
+alter table {{devops}}.pipeline_template
+    drop column if exists deleted_by,
+    drop column if exists deleted_at;
+alter table {{systiva}}.fnd_services
+    drop column if exists deleted_by,
+    drop column if exists deleted_at;
+alter table {{systiva}}.fnd_products
+    drop column if exists deleted_by,
+    drop column if exists deleted_at;
+alter table {{systiva}}.fnd_enterprise
+    drop column if exists deleted_by,
+    drop column if exists deleted_at;
+alter table {{systiva}}.fnd_accounts
+    drop column if exists deleted_by,
+    drop column if exists deleted_at;
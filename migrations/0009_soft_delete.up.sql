@@ -0,0 +1,20 @@
+-- Soft delete for master data: deleted rows keep their data until the
+-- retention purge removes them for good.
+alter table {{systiva}}.fnd_accounts
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text;
+alter table {{systiva}}.fnd_enterprise
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text;
+alter table {{systiva}}.fnd_products
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text;
+alter table {{systiva}}.fnd_services
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text;
+alter table {{devops}}.pipeline_template
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text;
+alter table {{devops}}.users
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text;
@@ -0,0 +1,24 @@
+alter table {{devops}}.pipeline_config
+    drop column if exists version;
+alter table {{devops}}.pipeline_yaml
+    drop column if exists version;
+alter table {{devops}}.pipeline_template
+    drop column if exists version;
+alter table {{devops}}.groups
+    drop column if exists version;
+alter table {{devops}}.users
+    drop column if exists version;
+alter table {{systiva}}.fnd_global_settings
+    drop column if exists version;
+alter table {{systiva}}.fnd_business_unit_settings
+    drop column if exists version;
+alter table {{systiva}}.fnd_enterprise_products_services
+    drop column if exists version;
+alter table {{systiva}}.fnd_services
+    drop column if exists version;
+alter table {{systiva}}.fnd_products
+    drop column if exists version;
+alter table {{systiva}}.fnd_enterprise
+    drop column if exists version;
+alter table {{systiva}}.fnd_accounts
+    drop column if exists version;
@@ -0,0 +1,26 @@
+-- Row versions for optimistic concurrency: every update bumps the version
+-- and If-Match requests only apply to the version the client last read.
+alter table {{systiva}}.fnd_accounts
+    add column if not exists version integer not null default 1;
+alter table {{systiva}}.fnd_enterprise
+    add column if not exists version integer not null default 1;
+alter table {{systiva}}.fnd_products
+    add column if not exists version integer not null default 1;
+alter table {{systiva}}.fnd_services
+    add column if not exists version integer not null default 1;
+alter table {{systiva}}.fnd_enterprise_products_services
+    add column if not exists version integer not null default 1;
+alter table {{systiva}}.fnd_business_unit_settings
+    add column if not exists version integer not null default 1;
+alter table {{systiva}}.fnd_global_settings
+    add column if not exists version integer not null default 1;
+alter table {{devops}}.users
+    add column if not exists version integer not null default 1;
+alter table {{devops}}.groups
+    add column if not exists version integer not null default 1;
+alter table {{devops}}.pipeline_template
+    add column if not exists version integer not null default 1;
+alter table {{devops}}.pipeline_yaml
+    add column if not exists version integer not null default 1;
+alter table {{devops}}.pipeline_config
+    add column if not exists version integer not null default 1;
@@ -0,0 +1 @@
+drop index if exists {{systiva}}.fnd_enterprise_products_services_triple_idx;
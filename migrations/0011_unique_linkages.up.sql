@@ -0,0 +1,14 @@
+-- One linkage per enterprise/product/service triple; of any duplicates
+-- made before this, the oldest row is kept.
+delete from {{systiva}}.fnd_enterprise_products_services a
+    where exists (
+        select 1
+        from {{systiva}}.fnd_enterprise_products_services b
+        where b.enterprise_id = a.enterprise_id
+          and b.product_id = a.product_id
+          and b.service_id = a.service_id
+          and b.id < a.id
+    );
+create unique index if not exists fnd_enterprise_products_services_triple_idx
+    on {{systiva}}.fnd_enterprise_products_services
+        (enterprise_id, product_id, service_id);
@@ -0,0 +1,2 @@
+alter table {{devops}}.users drop column if exists account_id;
+drop table if exists {{systiva}}.fnd_licenses;
@@ -0,0 +1,23 @@
+-- Licenses an account holds: seats for its users and the product/service
+-- pairs the enterprises it covers may be linked to.
+create table if not exists {{systiva}}.fnd_licenses (
+    license_id serial primary key,
+    account_id integer not null,
+    license_key text not null,
+    status text not null default 'ACTIVE',
+    seats integer not null default 0,
+    -- YYYY-MM-DD, as user start and end dates
+    start_date text not null,
+    end_date text,
+    enterprise_ids jsonb not null default '[]'::jsonb,
+    entitlements jsonb not null default '[]'::jsonb,
+    version integer not null default 1,
+    check (end_date is null or end_date >= start_date)
+);
+create unique index if not exists fnd_licenses_key_idx
+    on {{systiva}}.fnd_licenses (license_key);
+create index if not exists fnd_licenses_account_idx
+    on {{systiva}}.fnd_licenses (account_id);
+
+-- Users of an account take up its license seats
+alter table {{devops}}.users add column if not exists account_id integer;
@@ -0,0 +1 @@
+drop index if exists {{systiva}}.audit_log_created_at_idx;
@@ -0,0 +1,3 @@
+-- Audit searches without an entity or actor filter read newest first.
+create index if not exists audit_log_created_at_idx
+    on {{systiva}}.audit_log (created_at);
@@ -0,0 +1 @@
+drop index if exists {{devops}}.users_username_live_idx;
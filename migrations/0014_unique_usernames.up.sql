@@ -0,0 +1,6 @@
+-- One live user per username; deleted users keep theirs until restored.
+-- Fails on duplicates made before this, which have to be renamed or
+-- deleted by hand: which of them owns the memberships can't be told here.
+create unique index if not exists users_username_live_idx
+    on {{devops}}.users (username)
+    where deleted_at is null;
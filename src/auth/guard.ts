@@ -0,0 +1,101 @@
+import {
+    CanActivate,
+    ExecutionContext,
+    ForbiddenException,
+    SetMetadata,
+    UnauthorizedException,
+} from '@nestjs/common';
+import {Reflector} from '@nestjs/core';
+import {AuthService} from '../services/auth';
+import {PermissionsService} from '../services/permissions';
+import {
+    AUTHENTICATED_KEY,
+    PERMISSION_KEY,
+    RESOURCE_KEY,
+    hasPermission,
+} from './permissions';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+// Marks a controller or route as reachable without a bearer token
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+export class JwtAuthGuard implements CanActivate {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly auth: AuthService,
+    ) {}
+
+    canActivate(context: ExecutionContext): boolean {
+        const isPublic = this.reflector.getAllAndOverride<boolean>(
+            IS_PUBLIC_KEY,
+            [context.getHandler(), context.getClass()],
+        );
+        if (isPublic) return true;
+
+        const req = context.switchToHttp().getRequest();
+        const header: string = req.headers?.authorization || '';
+        const [scheme, token] = header.split(' ');
+        if (scheme?.toLowerCase() !== 'bearer' || !token) {
+            throw new UnauthorizedException('missing bearer token');
+        }
+        const claims = this.auth.verifyAccessToken(token);
+        if (!claims) {
+            throw new UnauthorizedException('invalid or expired token');
+        }
+        req.user = claims;
+        return true;
+    }
+}
+
+/**
+ * Runs after JwtAuthGuard. Routes must declare what they need through
+ * @Resource, @RequirePermission or @Authenticated; anything else is denied.
+ * Enterprise-scoped grants count only on routes with an :enterpriseId
+ * param naming that enterprise; query and body values are the caller's to
+ * choose, so they never widen what a scoped grant allows.
+ */
+export class PermissionsGuard implements CanActivate {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly permissions: PermissionsService,
+    ) {}
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const targets = [context.getHandler(), context.getClass()];
+        if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets))
+            return true;
+        if (
+            this.reflector.getAllAndOverride<boolean>(
+                AUTHENTICATED_KEY,
+                targets,
+            )
+        )
+            return true;
+
+        const req = context.switchToHttp().getRequest();
+        let required = this.reflector.getAllAndOverride<string>(
+            PERMISSION_KEY,
+            targets,
+        );
+        if (!required) {
+            const resource = this.reflector.getAllAndOverride<string>(
+                RESOURCE_KEY,
+                targets,
+            );
+            if (!resource) throw new ForbiddenException('route is not permitted');
+            const method = String(req.method).toUpperCase();
+            const action = ['GET', 'HEAD', 'OPTIONS'].includes(method)
+                ? 'read'
+                : 'write';
+            required = `${resource}:${action}`;
+        }
+
+        const enterprise = req.params?.enterpriseId ?? null;
+        const grants = await this.permissions.grantsFor(req.user?.username);
+        if (!hasPermission(grants, required, enterprise)) {
+            throw new ForbiddenException(`missing permission ${required}`);
+        }
+        return true;
+    }
+}
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+
+export interface JwtClaims {
+    sub: string;
+    iat: number;
+    exp: number;
+    [claim: string]: unknown;
+}
+
+function base64url(input: Buffer | string): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+function hmac(data: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+// HS256-signed JSON Web Token
+export function signJwt(
+    payload: Omit<JwtClaims, 'iat' | 'exp'>,
+    secret: string,
+    ttlSeconds: number,
+): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({alg: 'HS256', typ: 'JWT'}));
+    const body = base64url(
+        JSON.stringify({...payload, iat, exp: iat + ttlSeconds}),
+    );
+    return `${header}.${body}.${hmac(`${header}.${body}`, secret)}`;
+}
+
+// Returns the claims of a well-formed, correctly signed, unexpired token
+export function verifyJwt(token: string, secret: string): JwtClaims | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    const [header, body, signature] = parts;
+    const expected = Buffer.from(hmac(`${header}.${body}`, secret));
+    const actual = Buffer.from(signature);
+    if (
+        expected.length !== actual.length ||
+        !crypto.timingSafeEqual(expected, actual)
+    )
+        return null;
+    try {
+        const {alg} = JSON.parse(Buffer.from(header, 'base64url').toString());
+        if (alg !== 'HS256') return null;
+        const claims = JSON.parse(
+            Buffer.from(body, 'base64url').toString(),
+        ) as JwtClaims;
+        if (typeof claims.exp !== 'number') return null;
+        if (claims.exp <= Math.floor(Date.now() / 1000)) return null;
+        return claims;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,61 @@
+import {SetMetadata} from '@nestjs/common';
+
+export type PermissionAction = 'read' | 'write' | 'admin';
+
+export interface Grant {
+    resource: string; // e.g. accounts, templates, or * for every resource
+    action: PermissionAction;
+    // Only applies to requests about this enterprise; null means everywhere
+    enterprise: string | null;
+}
+
+// admin implies write, write implies read
+const RANK: Record<PermissionAction, number> = {read: 1, write: 2, admin: 3};
+
+export const PERMISSION_RE = /^([a-z][a-z0-9-]*|\*):(read|write|admin)$/;
+
+export function isPermission(value: unknown): value is string {
+    return typeof value === 'string' && PERMISSION_RE.test(value);
+}
+
+export function parsePermission(
+    value: string,
+): {resource: string; action: PermissionAction} | null {
+    const m = PERMISSION_RE.exec(value);
+    if (!m) return null;
+    return {resource: m[1], action: m[2] as PermissionAction};
+}
+
+export function hasPermission(
+    grants: Grant[],
+    required: string,
+    enterprise?: string | null,
+): boolean {
+    const need = parsePermission(required);
+    if (!need) return false;
+    return grants.some(
+        (g) =>
+            (g.resource === '*' || g.resource === need.resource) &&
+            RANK[g.action] >= RANK[need.action] &&
+            (g.enterprise === null ||
+                (enterprise != null && g.enterprise === String(enterprise))),
+    );
+}
+
+export const RESOURCE_KEY = 'permissionResource';
+export const PERMISSION_KEY = 'requiredPermission';
+export const AUTHENTICATED_KEY = 'authenticatedOnly';
+
+/**
+ * Names the resource a controller manages. Reads (GET) need
+ * `<resource>:read`, every other method needs `<resource>:write`.
+ */
+export const Resource = (resource: string) =>
+    SetMetadata(RESOURCE_KEY, resource);
+
+// Overrides the inferred permission, e.g. @RequirePermission('users:admin')
+export const RequirePermission = (permission: string) =>
+    SetMetadata(PERMISSION_KEY, permission);
+
+// Any signed-in user may call it; no permission needed
+export const Authenticated = () => SetMetadata(AUTHENTICATED_KEY, true);
@@ -0,0 +1,36 @@
+// Sliding-window attempt counter, kept in memory per process. Used to slow
+// down password guessing from a single client on the login routes.
+export class Throttle {
+    private hits = new Map<string, number[]>();
+
+    constructor(
+        private readonly limit: number,
+        private readonly windowSeconds: number,
+    ) {}
+
+    /**
+     * Records an attempt for `key`. Returns 0 when it is allowed, otherwise
+     * the number of seconds until the oldest attempt leaves the window.
+     */
+    hit(key: string, now = Date.now()): number {
+        if (this.limit <= 0) return 0;
+        const since = now - this.windowSeconds * 1000;
+        const recent = (this.hits.get(key) || []).filter((t) => t > since);
+        if (recent.length >= this.limit) {
+            this.hits.set(key, recent);
+            return Math.max(Math.ceil((recent[0] - since) / 1000), 1);
+        }
+        recent.push(now);
+        this.hits.set(key, recent);
+        this.prune(since);
+        return 0;
+    }
+
+    // Drops clients with no attempts left in the window
+    private prune(since: number) {
+        if (this.hits.size < 1000) return;
+        for (const [key, times] of this.hits) {
+            if (times[times.length - 1] <= since) this.hits.delete(key);
+        }
+    }
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import path from 'path';
 
@@ -18,3 +19,36 @@ export const PG = {
     password: process.env.PGPASSWORD || '',
     database: process.env.PGDATABASE || 'postgres',
 };
+
+if (!process.env.JWT_SECRET) {
+    console.warn(
+        'JWT_SECRET not set; using a random secret (tokens will not survive a restart)',
+    );
+}
+
+export const AUTH = {
+    jwtSecret: process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex'),
+    // Token lifetimes in seconds
+    accessTtl: Number(process.env.JWT_ACCESS_TTL || 15 * 60),
+    refreshTtl: Number(process.env.JWT_REFRESH_TTL || 7 * 24 * 60 * 60),
+    // How many recent passwords (including the current one) cannot be reused
+    passwordHistory: Number(process.env.PASSWORD_HISTORY || 5),
+    // Failed logins within failedLoginWindow seconds that lock the user
+    maxFailedLogins: Number(process.env.LOGIN_MAX_FAILURES || 5),
+    failedLoginWindow: Number(process.env.LOGIN_FAILURE_WINDOW || 15 * 60),
+    // Seconds until an automatic lock is lifted; 0 keeps it until an admin unlocks
+    lockDuration: Number(process.env.LOGIN_LOCK_DURATION || 15 * 60),
+    // Login attempts allowed per client IP in each loginRateWindow seconds
+    loginRateLimit: Number(process.env.LOGIN_RATE_LIMIT || 20),
+    loginRateWindow: Number(process.env.LOGIN_RATE_WINDOW || 60),
+};
+
+export const SOFT_DELETE = {
+    // Days a soft-deleted record can still be restored before it is purged
+    retentionDays: Number(process.env.SOFT_DELETE_RETENTION_DAYS || 30),
+    // Seconds between purge runs; 0 disables the scheduled purge
+    purgeInterval: Number(process.env.SOFT_DELETE_PURGE_INTERVAL || 60 * 60),
+};
+
+// Largest JSON or text/csv request body, e.g. bulk imports and snapshots
+export const BODY_LIMIT = process.env.BODY_LIMIT || '5mb';
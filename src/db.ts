@@ -1,3 +1,4 @@
+import {AsyncLocalStorage} from 'async_hooks';
 import {Pool} from 'pg';
 
 export type StorageMode = 'filesystem' | 'postgres';
@@ -9,6 +10,9 @@ export function getStorageMode(): StorageMode {
 
 let pool: Pool | null = null;
 
+// Client of the transaction the current async call chain runs in, if any
+const transactionClient = new AsyncLocalStorage<any>();
+
 export function getPool(): Pool {
     const storageMode = getStorageMode();
     if (storageMode !== 'postgres') {
@@ -51,6 +55,8 @@ export async function withPg<T>(fn: (client: any) => Promise<T>): Promise<T> {
     if (storageMode !== 'postgres') {
         throw new Error('PostgreSQL not enabled. Set STORAGE_MODE=postgres');
     }
+    const current = transactionClient.getStore();
+    if (current) return fn(current);
     
     const p = getPool();
     const client = await p.connect();
@@ -64,6 +70,26 @@ export async function withPg<T>(fn: (client: any) => Promise<T>): Promise<T> {
     }
 }
 
+/**
+ * Runs `fn` in one transaction: every withPg call made while it runs,
+ * including those of repositories, uses the transaction's client, and an
+ * error rolls all of them back. Nested calls join the outer transaction.
+ */
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (transactionClient.getStore()) return fn();
+    return withPg(async (client) => {
+        await client.query('begin');
+        try {
+            const result = await transactionClient.run(client, fn);
+            await client.query('commit');
+            return result;
+        } catch (error) {
+            await client.query('rollback');
+            throw error;
+        }
+    });
+}
+
 export async function testConnection(): Promise<boolean> {
     const storageMode = getStorageMode();
     if (storageMode !== 'postgres') {
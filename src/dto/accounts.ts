@@ -0,0 +1,49 @@
+import {Type} from 'class-transformer';
+import {
+    IsEmail,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+} from 'class-validator';
+
+export class CreateAccountDto {
+    @IsString()
+    @IsNotEmpty()
+    accountName!: string;
+
+    @IsOptional()
+    @IsString()
+    clientId?: string;
+
+    @IsOptional()
+    @IsString()
+    clientName?: string;
+
+    @IsOptional()
+    @IsString()
+    contactName?: string;
+
+    @IsOptional()
+    @IsString()
+    contactTitle?: string;
+
+    @IsOptional()
+    @IsEmail()
+    contactEmail?: string;
+
+    @IsOptional()
+    @IsString()
+    contactPhone?: string;
+
+    @IsOptional()
+    @IsString()
+    licenseId?: string;
+}
+
+// PUT /api/accounts carries the id in the body and replaces the record
+export class UpdateAccountDto extends CreateAccountDto {
+    @Type(() => Number)
+    @IsInt()
+    id!: number;
+}
@@ -0,0 +1,40 @@
+import {IsNotEmpty, IsOptional, IsString} from 'class-validator';
+
+// `username` may hold either the username or the email
+export class LoginDto {
+    @IsOptional()
+    @IsString()
+    username?: string;
+
+    @IsOptional()
+    @IsString()
+    email?: string;
+
+    @IsString()
+    @IsNotEmpty()
+    password!: string;
+}
+
+export class ChangePasswordDto {
+    @IsOptional()
+    @IsString()
+    username?: string;
+
+    @IsOptional()
+    @IsString()
+    email?: string;
+
+    @IsString()
+    @IsNotEmpty()
+    currentPassword!: string;
+
+    @IsString()
+    @IsNotEmpty()
+    newPassword!: string;
+}
+
+export class RefreshDto {
+    @IsString()
+    @IsNotEmpty()
+    refreshToken!: string;
+}
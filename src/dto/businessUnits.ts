@@ -0,0 +1,44 @@
+import {Type} from 'class-transformer';
+import {
+    IsArray,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+} from 'class-validator';
+
+// createdBy/lastUpdatedBy come from the signed-in user, not the body
+export class CreateBusinessUnitDto {
+    @IsString()
+    @IsNotEmpty()
+    clientId!: string;
+
+    @IsString()
+    @IsNotEmpty()
+    enterpriseId!: string;
+
+    @IsArray()
+    @IsString({each: true})
+    entities: string[] = [];
+}
+
+export class UpdateBusinessUnitDto {
+    @Type(() => Number)
+    @IsInt()
+    id!: number;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    clientId?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    enterpriseId?: string;
+
+    @IsOptional()
+    @IsArray()
+    @IsString({each: true})
+    entities?: string[];
+}
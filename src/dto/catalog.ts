@@ -0,0 +1,15 @@
+import {Type} from 'class-transformer';
+import {IsInt, IsNotEmpty, IsString} from 'class-validator';
+
+// Enterprises, products and services are all just a name
+export class NamedEntityDto {
+    @IsString()
+    @IsNotEmpty()
+    name!: string;
+}
+
+export class UpdateNamedEntityDto extends NamedEntityDto {
+    @Type(() => Number)
+    @IsInt()
+    id!: number;
+}
@@ -0,0 +1,67 @@
+import {Type} from 'class-transformer';
+import {
+    IsArray,
+    IsInt,
+    IsOptional,
+    IsPositive,
+    ValidateNested,
+} from 'class-validator';
+
+export class CreateEnterpriseProductServiceDto {
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    enterpriseId!: number;
+
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    productId!: number;
+
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    serviceId!: number;
+}
+
+export class UpdateEnterpriseProductServiceDto {
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    enterpriseId?: number;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    productId?: number;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    serviceId?: number;
+}
+
+export class ProductServicesDto {
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    productId!: number;
+
+    @IsArray()
+    @Type(() => Number)
+    @IsInt({each: true})
+    @IsPositive({each: true})
+    serviceIds!: number[];
+}
+
+// PUT /api/enterprise-products-services/enterprise/:enterpriseId: the
+// enterprise's whole catalogue; products left out lose all their services
+export class EnterpriseCatalogueDto {
+    @IsArray()
+    @ValidateNested({each: true})
+    @Type(() => ProductServicesDto)
+    products!: ProductServicesDto[];
+}
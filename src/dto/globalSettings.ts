@@ -0,0 +1,88 @@
+import {
+    IsArray,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    ValidationArguments,
+    registerDecorator,
+} from 'class-validator';
+import {
+    GlobalSettingCategory,
+    normalizeCategories,
+} from '../services/globalSettings';
+
+// Known tool categories only, each a list of tool names
+function IsToolCategories() {
+    return (target: object, propertyName: string) =>
+        registerDecorator({
+            name: 'isToolCategories',
+            target: target.constructor,
+            propertyName,
+            validator: {
+                validate: (value: unknown) =>
+                    !('error' in normalizeCategories(value)),
+                defaultMessage: (args?: ValidationArguments) => {
+                    const result = normalizeCategories(args?.value);
+                    return 'error' in result ? result.error : '';
+                },
+            },
+        });
+}
+
+export class CreateGlobalSettingDto {
+    @IsString()
+    @IsNotEmpty()
+    accountId!: string;
+
+    @IsString()
+    @IsNotEmpty()
+    accountName!: string;
+
+    // Absent or null for account-wide settings
+    @IsOptional()
+    @IsString()
+    enterpriseId?: string | null;
+
+    @IsString()
+    @IsNotEmpty()
+    enterpriseName!: string;
+
+    @IsOptional()
+    @IsArray()
+    @IsString({each: true})
+    entities?: string[];
+
+    @IsOptional()
+    @IsToolCategories()
+    categories?: Partial<Record<GlobalSettingCategory, string[]>>;
+}
+
+export class UpdateGlobalSettingDto {
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    accountId?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    accountName?: string;
+
+    @IsOptional()
+    @IsString()
+    enterpriseId?: string | null;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    enterpriseName?: string;
+
+    @IsOptional()
+    @IsArray()
+    @IsString({each: true})
+    entities?: string[];
+
+    @IsOptional()
+    @IsToolCategories()
+    categories?: Partial<Record<GlobalSettingCategory, string[]>>;
+}
@@ -0,0 +1,58 @@
+import {
+    IsArray,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Matches,
+} from 'class-validator';
+import {PERMISSION_RE} from '../auth/permissions';
+
+const PERMISSION_MESSAGE =
+    'each permission must look like resource:read|write|admin';
+
+export class CreateGroupDto {
+    @IsString()
+    @IsNotEmpty()
+    name!: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    @IsOptional()
+    @IsArray()
+    @Matches(PERMISSION_RE, {each: true, message: PERMISSION_MESSAGE})
+    permissions?: string[];
+}
+
+export class UpdateGroupDto {
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    @IsOptional()
+    @IsArray()
+    @Matches(PERMISSION_RE, {each: true, message: PERMISSION_MESSAGE})
+    permissions?: string[];
+}
+
+// POST /api/user-groups/:username creates the group by name if needed
+export class AssignUserGroupDto {
+    @IsString()
+    @IsNotEmpty()
+    name!: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    // Limits the group's permissions to this enterprise
+    @IsOptional()
+    @IsString()
+    enterprise?: string;
+}
@@ -0,0 +1,60 @@
+import {Type} from 'class-transformer';
+import {
+    IsArray,
+    IsDateString,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsPositive,
+    IsString,
+    Matches,
+    Min,
+    ValidateNested,
+} from 'class-validator';
+import {LICENSE_STATUSES, LicenseStatus} from '../services/licenses';
+import {ProductServicesDto} from './enterpriseProductsServices';
+
+const DATE_ONLY = /^\d{4}-\d\d-\d\d$/;
+const DATE_MESSAGE = '$property must be a YYYY-MM-DD date';
+
+// POST /api/licenses, and PUT /api/licenses/:id replacing the record
+export class LicenseDto {
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    accountId!: number;
+
+    @IsString()
+    @IsNotEmpty()
+    licenseKey!: string;
+
+    @IsIn(LICENSE_STATUSES)
+    status: LicenseStatus = 'ACTIVE';
+
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    seats!: number;
+
+    @IsDateString({strict: true})
+    @Matches(DATE_ONLY, {message: DATE_MESSAGE})
+    startDate!: string;
+
+    // Null or absent means the license doesn't run out
+    @IsOptional()
+    @IsDateString({strict: true})
+    @Matches(DATE_ONLY, {message: DATE_MESSAGE})
+    endDate?: string | null;
+
+    @IsArray()
+    @Type(() => Number)
+    @IsInt({each: true})
+    @IsPositive({each: true})
+    enterpriseIds: number[] = [];
+
+    @IsArray()
+    @ValidateNested({each: true})
+    @Type(() => ProductServicesDto)
+    entitlements: ProductServicesDto[] = [];
+}
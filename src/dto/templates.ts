@@ -0,0 +1,58 @@
+import {Type} from 'class-transformer';
+import {
+    IsDefined,
+    IsIn,
+    IsNotEmpty,
+    IsObject,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator';
+
+export class TemplateDetailsDto {
+    @IsString()
+    enterprise!: string;
+
+    @IsString()
+    entity!: string;
+}
+
+// PUT /api/templates/:id replaces the record, so it takes the same fields
+export class TemplateDto {
+    @IsString()
+    @IsNotEmpty()
+    name!: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    // ValidateNested alone lets a missing details through
+    @IsDefined()
+    @IsObject()
+    @ValidateNested()
+    @Type(() => TemplateDetailsDto)
+    details!: TemplateDetailsDto;
+
+    @IsIn(['Integration', 'Extension'])
+    deploymentType!: 'Integration' | 'Extension';
+
+    @IsIn(['Active', 'Inactive', 'Draft'])
+    status!: 'Active' | 'Inactive' | 'Draft';
+
+    @IsOptional()
+    @IsString()
+    flowTemplateId?: string;
+}
+
+// Clients may choose the id of a new template
+export class CreateTemplateDto extends TemplateDto {
+    @IsOptional()
+    @IsString()
+    id?: string;
+}
+
+export class PipelineYamlDto {
+    @IsString()
+    yaml!: string;
+}
@@ -0,0 +1,96 @@
+import {Type} from 'class-transformer';
+import {
+    IsBoolean,
+    IsDateString,
+    IsEmail,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsPositive,
+    IsString,
+    IsUUID,
+} from 'class-validator';
+
+const USER_STATUSES = ['ACTIVE', 'INACTIVE'] as const;
+
+// Lock state is left out: it only changes through the users:admin lock
+// endpoint and automatic lockouts, which keep the lock history
+export class CreateUserDto {
+    @IsString()
+    @IsNotEmpty()
+    username!: string;
+
+    @IsString()
+    @IsNotEmpty()
+    firstName!: string;
+
+    @IsOptional()
+    @IsString()
+    middleName?: string;
+
+    @IsString()
+    lastName!: string;
+
+    @IsEmail()
+    email!: string;
+
+    @IsIn(USER_STATUSES)
+    status: 'ACTIVE' | 'INACTIVE' = 'ACTIVE';
+
+    @IsDateString()
+    startDate!: string;
+
+    // Null or absent means no end date
+    @IsOptional()
+    @IsDateString()
+    endDate?: string | null;
+
+    @IsString()
+    groupName = '';
+
+    // Null or absent for users outside any account's license seats
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @IsPositive()
+    accountId?: number | null;
+}
+
+// PUT /api/users carries the id in the body and replaces the record
+export class UpdateUserDto extends CreateUserDto {
+    @IsUUID()
+    id!: string;
+}
+
+export class UserStatusDto {
+    @IsIn(USER_STATUSES)
+    status!: 'ACTIVE' | 'INACTIVE';
+}
+
+export class UserLockDto {
+    @IsBoolean()
+    locked!: boolean;
+
+    @IsOptional()
+    @IsString()
+    reason?: string;
+}
+
+export class SetPasswordDto {
+    @IsString()
+    password!: string;
+}
+
+// Without a password the server generates a temporary one
+export class ResetPasswordDto {
+    @IsOptional()
+    @IsString()
+    password?: string;
+}
+
+export class AssignGroupDto {
+    @IsString()
+    @IsNotEmpty()
+    groupId!: string;
+}
@@ -0,0 +1,109 @@
+import {HttpStatus} from '@nestjs/common';
+
+/**
+ * Errors services throw for expected failures. The global exception filter
+ * turns them into the {code, message, details, requestId} error envelope
+ * with `status` as the HTTP status.
+ */
+export class DomainError extends Error {
+    constructor(
+        readonly status: HttpStatus,
+        readonly code: string,
+        message: string,
+        readonly details: Record<string, unknown> | null = null,
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class NotFoundError extends DomainError {
+    constructor(entity: string, id?: unknown) {
+        super(
+            HttpStatus.NOT_FOUND,
+            'NOT_FOUND',
+            id === undefined
+                ? `${entity} not found`
+                : `${entity} ${id} not found`,
+            id === undefined ? {entity} : {entity, id},
+        );
+    }
+}
+
+export class ConflictError extends DomainError {
+    constructor(
+        message: string,
+        details: Record<string, unknown> | null = null,
+    ) {
+        super(HttpStatus.CONFLICT, 'CONFLICT', message, details);
+    }
+}
+
+export class ValidationError extends DomainError {
+    constructor(
+        message: string,
+        details: Record<string, unknown> | null = null,
+    ) {
+        super(HttpStatus.BAD_REQUEST, 'VALIDATION_FAILED', message, details);
+    }
+}
+
+// The If-Match version no longer matches the stored record
+export class PreconditionFailedError extends DomainError {
+    constructor(
+        message: string,
+        details: Record<string, unknown> | null = null,
+    ) {
+        super(
+            HttpStatus.PRECONDITION_FAILED,
+            'PRECONDITION_FAILED',
+            message,
+            details,
+        );
+    }
+}
+
+// A row still references (or would reference a missing) parent row
+export class ForeignKeyViolationError extends DomainError {
+    constructor(
+        message: string,
+        details: Record<string, unknown> | null = null,
+    ) {
+        super(HttpStatus.CONFLICT, 'FOREIGN_KEY_VIOLATION', message, details);
+    }
+}
+
+// The change would go beyond what the account's licenses allow
+export class LicenseViolationError extends DomainError {
+    constructor(
+        message: string,
+        details: Record<string, unknown> | null = null,
+    ) {
+        super(HttpStatus.CONFLICT, 'LICENSE_VIOLATION', message, details);
+    }
+}
+
+// SQLSTATE codes, see https://www.postgresql.org/docs/current/errcodes-appendix.html
+const PG_ERRORS: Record<
+    string,
+    (message: string, details: Record<string, unknown>) => DomainError
+> = {
+    '23503': (m, d) => new ForeignKeyViolationError(m, d),
+    '23505': (m, d) => new ConflictError(m, d),
+    '23502': (m, d) => new ValidationError(m, d),
+    '23514': (m, d) => new ValidationError(m, d),
+    '22P02': (m, d) => new ValidationError(m, d),
+    '22003': (m, d) => new ValidationError(m, d),
+};
+
+// Typed error for constraint and input errors from `pg`; others unchanged
+export function fromPgError(error: any): unknown {
+    const build = error && PG_ERRORS[error.code];
+    if (!build) return error;
+    const details: Record<string, unknown> = {pgCode: error.code};
+    if (error.table) details.table = error.table;
+    if (error.column) details.column = error.column;
+    if (error.constraint) details.constraint = error.constraint;
+    if (error.detail) details.detail = error.detail;
+    return build(error.message, details);
+}
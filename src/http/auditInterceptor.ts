@@ -0,0 +1,129 @@
+import {
+    CallHandler,
+    ExecutionContext,
+    Logger,
+    NestInterceptor,
+    SetMetadata,
+} from '@nestjs/common';
+import {Reflector} from '@nestjs/core';
+import {Observable, from, lastValueFrom} from 'rxjs';
+import {AuditAction, AuditService, diffEntities} from '../services/audit';
+
+export const AUDIT_KEY = 'auditTarget';
+
+// The records a route touches by audit entity id; missing or null for
+// ones that don't exist (yet, or anymore)
+export type AuditState = Record<string, unknown>;
+
+/**
+ * What a route changes. `state` is read before the handler and again
+ * after it with its response, where creates find their new id; every
+ * record whose state differs gets an entry with `entity` and `action`.
+ */
+export interface AuditTarget {
+    entity: string;
+    action: AuditAction;
+    state: (req: any, response?: any) => Promise<AuditState>;
+}
+
+export const Audit = (target: AuditTarget) => SetMetadata(AUDIT_KEY, target);
+
+// Finds the audited record's id in the request, or in the response
+export type AuditId = (req: any, response?: any) => unknown;
+
+// The target of routes that change the one record `id` finds
+export function auditOne(
+    entity: string,
+    action: AuditAction,
+    id: AuditId,
+    load: (id: string) => Promise<unknown>,
+): AuditTarget {
+    return {
+        entity,
+        action,
+        state: async (req, response) => {
+            const key = id(req, response);
+            if (key === undefined || key === null) return {};
+            return {[String(key)]: await load(String(key)).catch(() => null)};
+        },
+    };
+}
+
+// Records who changed what for every successful request to a route
+// declared with @Audit
+export class AuditInterceptor implements NestInterceptor {
+    private readonly logger = new Logger('Audit');
+
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly audit: AuditService,
+    ) {}
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const target = this.reflector.get<AuditTarget>(
+            AUDIT_KEY,
+            context.getHandler(),
+        );
+        if (!target) return next.handle();
+        const req = context.switchToHttp().getRequest();
+        const res = context.switchToHttp().getResponse();
+        return from(this.run(req, res, target, next));
+    }
+
+    private async run(
+        req: any,
+        res: any,
+        target: AuditTarget,
+        next: CallHandler,
+    ) {
+        const before = await this.safeState(target, req);
+
+        // Handlers using @Res() answer through res.json, so capture it there
+        let sent: unknown;
+        const json = res.json.bind(res);
+        res.json = (body: unknown) => {
+            sent = body;
+            return json(body);
+        };
+        const result = await lastValueFrom(next.handle(), {
+            defaultValue: undefined,
+        });
+        if (res.statusCode >= 400) return result;
+
+        const after = await this.safeState(target, req, sent ?? result);
+        try {
+            const ids = [...Object.keys(before), ...Object.keys(after)];
+            for (const id of new Set(ids)) {
+                const changes = diffEntities(before[id], after[id]);
+                if (Object.keys(changes).length === 0) continue;
+                await this.audit.record({
+                    requestId: req.requestId || null,
+                    actor: req.user?.username || null,
+                    method: req.method,
+                    path: req.originalUrl || req.url,
+                    entity: target.entity,
+                    entityId: id,
+                    action: target.action,
+                    changes,
+                });
+            }
+        } catch (error) {
+            // The change itself went through; don't fail the request
+            this.logger.error(`Failed to record audit entry: ${error}`);
+        }
+        return result;
+    }
+
+    // A state that can't be read leaves its records out of the entries
+    private async safeState(
+        target: AuditTarget,
+        req: any,
+        response?: unknown,
+    ): Promise<AuditState> {
+        try {
+            return await target.state(req, response);
+        } catch {
+            return {};
+        }
+    }
+}
@@ -0,0 +1,46 @@
+import {ValidationError} from '../errors';
+import {ExportTable} from '../services/bulkImport';
+import {parseCsv, toCsv} from './csv';
+
+export type ExportFormat = 'json' | 'csv';
+
+// ?format=json|csv, json when absent
+export function parseExportFormat(value: unknown): ExportFormat {
+    if (value === undefined) return 'json';
+    if (value !== 'json' && value !== 'csv')
+        throw new ValidationError('format must be json or csv', {
+            param: 'format',
+        });
+    return value;
+}
+
+// ?dryRun=true previews an import without writing anything
+export function parseDryRun(value: unknown): boolean {
+    return parseFlag(value, 'dryRun');
+}
+
+// An optional true/false query parameter, false when absent
+export function parseFlag(value: unknown, param: string): boolean {
+    if (value === undefined) return false;
+    if (value !== 'true' && value !== 'false')
+        throw new ValidationError(`${param} must be true or false`, {param});
+    return value === 'true';
+}
+
+// text/csv bodies arrive as a string, JSON ones already parsed
+export function importRecords(body: unknown): unknown {
+    return typeof body === 'string' ? parseCsv(body) : body;
+}
+
+// JSON exports are the bare array; CSV ones download as <name>.csv
+export function sendExport(
+    res: any,
+    name: string,
+    format: ExportFormat,
+    table: ExportTable,
+): unknown {
+    if (format === 'json') return table.records;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${name}.csv"`);
+    return toCsv(table.columns, table.records);
+}
@@ -0,0 +1,78 @@
+import {ValidationError} from '../errors';
+
+/**
+ * RFC 4180 CSV: the first line names the columns and every further line
+ * becomes one {column: cell} record. Quoted cells may hold commas, quotes
+ * ("") and line breaks; blank lines are skipped. Rows are numbered from 1
+ * after the header, as in import reports.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const lines = csvLines(text.replace(/^\uFEFF/, ''));
+    const header = lines.shift();
+    if (!header) return [];
+    const columns = header.map((c) => c.trim());
+    return lines.map((cells, i) => {
+        if (cells.length > columns.length)
+            throw new ValidationError(
+                `CSV row ${i + 1} has more cells than the header`,
+                {row: i + 1},
+            );
+        const record: Record<string, string> = {};
+        columns.forEach((column, j) => {
+            if (column !== '' && j < cells.length) record[column] = cells[j];
+        });
+        return record;
+    });
+}
+
+function csvLines(text: string): string[][] {
+    const lines: string[][] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    // Whether the current line had any content, so blank ones are dropped
+    let started = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c !== '"') cell += c;
+            else if (text[i + 1] === '"') cell += text[++i];
+            else quoted = false;
+            continue;
+        }
+        if (c === '"' && cell === '') {
+            quoted = started = true;
+        } else if (c === ',') {
+            cells.push(cell);
+            cell = '';
+            started = true;
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            if (started || cell !== '') lines.push([...cells, cell]);
+            cells = [];
+            cell = '';
+            started = false;
+        } else {
+            cell += c;
+        }
+    }
+    if (quoted) throw new ValidationError('CSV ends inside a quoted cell');
+    if (started || cell !== '') lines.push([...cells, cell]);
+    return lines;
+}
+
+// Missing values become empty cells; objects are written as JSON
+export function toCsv(
+    columns: string[],
+    records: Record<string, unknown>[],
+): string {
+    const lines = [columns, ...records.map((r) => columns.map((c) => r[c]))];
+    return lines.map((cells) => cells.map(csvCell).join(',')).join('\r\n');
+}
+
+function csvCell(value: unknown): string {
+    if (value == null) return '';
+    const text =
+        typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,87 @@
+import {
+    ArgumentsHost,
+    Catch,
+    ExceptionFilter,
+    HttpException,
+    HttpStatus,
+    Logger,
+} from '@nestjs/common';
+import {DomainError, fromPgError} from '../errors';
+
+export interface ErrorEnvelope {
+    code: string;
+    message: string;
+    details: Record<string, unknown> | null;
+    requestId: string | null;
+}
+
+// Codes shared with the domain errors; other statuses use their enum name
+const STATUS_CODES: Partial<Record<number, string>> = {
+    [HttpStatus.BAD_REQUEST]: 'VALIDATION_FAILED',
+    [HttpStatus.NOT_FOUND]: 'NOT_FOUND',
+    [HttpStatus.CONFLICT]: 'CONFLICT',
+};
+
+function fromHttpException(error: HttpException) {
+    const status = error.getStatus();
+    const body = error.getResponse() as any;
+    const message =
+        typeof body === 'string'
+            ? body
+            : Array.isArray(body?.message)
+              ? body.message.join('; ')
+              : body?.message || error.message;
+    return {
+        status,
+        code: body?.code || STATUS_CODES[status] || HttpStatus[status],
+        message,
+        details: body?.details ?? null,
+    };
+}
+
+/**
+ * Renders every error as {code, message, details, requestId}. Unexpected
+ * errors are logged and reported as a bare 500 so internals don't leak.
+ */
+@Catch()
+export class ErrorEnvelopeFilter implements ExceptionFilter {
+    private readonly logger = new Logger('Errors');
+
+    catch(exception: unknown, host: ArgumentsHost) {
+        const req = host.switchToHttp().getRequest();
+        const res = host.switchToHttp().getResponse();
+        const error = fromPgError(exception);
+
+        let status: number = HttpStatus.INTERNAL_SERVER_ERROR;
+        let envelope: ErrorEnvelope = {
+            code: 'INTERNAL_ERROR',
+            message: 'internal server error',
+            details: null,
+            requestId: req.requestId || null,
+        };
+        if (error instanceof DomainError) {
+            status = error.status;
+            envelope = {
+                ...envelope,
+                code: error.code,
+                message: error.message,
+                details: error.details,
+            };
+        } else if (error instanceof HttpException) {
+            const mapped = fromHttpException(error);
+            status = mapped.status;
+            envelope = {
+                ...envelope,
+                code: mapped.code,
+                message: mapped.message,
+                details: mapped.details,
+            };
+        } else {
+            this.logger.error(
+                `${req.method} ${req.originalUrl} [${envelope.requestId}]`,
+                (error as Error)?.stack || String(error),
+            );
+        }
+        res.status(status).json(envelope);
+    }
+}
@@ -0,0 +1,59 @@
+import {
+    CallHandler,
+    ExecutionContext,
+    NestInterceptor,
+    createParamDecorator,
+} from '@nestjs/common';
+import {Observable, map} from 'rxjs';
+import {ValidationError} from '../errors';
+import {WriteOptions} from '../repositories';
+
+// Entity versions double as strong ETags: version 3 is "3"
+export function etagOf(version: number): string {
+    return `"${version}"`;
+}
+
+/**
+ * `If-Match: "3"` becomes {expectedVersion: 3}; without the header (or with
+ * `*`) the write is unconditional. Weak or foreign tags are refused rather
+ * than ignored, so a client never thinks it is protected when it isn't.
+ */
+export function parseIfMatch(header: unknown): WriteOptions {
+    if (header === undefined || header === '*') return {};
+    const match =
+        typeof header === 'string' ? /^\s*"(\d+)"\s*$/.exec(header) : null;
+    if (!match)
+        throw new ValidationError(
+            'If-Match must be a single ETag from a previous response',
+            {header: 'If-Match'},
+        );
+    return {expectedVersion: Number(match[1])};
+}
+
+// Handler parameter with the WriteOptions of the request's If-Match header
+export const IfMatch = createParamDecorator(
+    (_data: unknown, context: ExecutionContext): WriteOptions =>
+        parseIfMatch(context.switchToHttp().getRequest().headers['if-match']),
+);
+
+// Sets the ETag of responses carrying a single versioned record, unless
+// the handler already set one itself
+export class EtagInterceptor implements NestInterceptor {
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const res = context.switchToHttp().getResponse();
+        return next.handle().pipe(
+            map((body) => {
+                if (
+                    body &&
+                    typeof body === 'object' &&
+                    !Array.isArray(body) &&
+                    Number.isInteger(body.version) &&
+                    !res.headersSent &&
+                    !res.getHeader('ETag')
+                )
+                    res.setHeader('ETag', etagOf(body.version));
+                return body;
+            }),
+        );
+    }
+}
@@ -0,0 +1,105 @@
+import {ValidationError} from '../errors';
+import {
+    PageQuery,
+    ReadOptions,
+    SortField,
+    decodeCursor,
+} from '../repositories';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+const LIST_PARAMS = ['page', 'pageSize', 'cursor', 'sort', 'filter', 'q'];
+
+export function positiveInt(value: unknown, param: string): number {
+    const n = Number(value);
+    if (typeof value !== 'string' || !Number.isInteger(n) || n < 1)
+        throw new ValidationError(`${param} must be a positive integer`, {
+            param,
+        });
+    return n;
+}
+
+// "name:asc,createdAt:desc"; the direction defaults to asc
+function parseSort(value: unknown): SortField[] {
+    if (typeof value !== 'string')
+        throw new ValidationError('sort must be field:asc|desc[,...]', {
+            param: 'sort',
+        });
+    return value
+        .split(',')
+        .filter((part) => part.trim() !== '')
+        .map((part) => {
+            const [field, dir = 'asc', ...rest] = part.trim().split(':');
+            if (!field || rest.length > 0 || !['asc', 'desc'].includes(dir))
+                throw new ValidationError(`invalid sort "${part}"`, {
+                    param: 'sort',
+                });
+            return {field, desc: dir === 'desc'};
+        });
+}
+
+// ?includeDeleted=true also returns soft-deleted records
+export function parseReadOptions(query: Record<string, unknown>): ReadOptions {
+    const value = query.includeDeleted;
+    if (value === undefined) return {};
+    if (value !== 'true' && value !== 'false')
+        throw new ValidationError('includeDeleted must be true or false', {
+            param: 'includeDeleted',
+        });
+    return {includeDeleted: value === 'true'};
+}
+
+// filter[field]=value, parsed by express into {filter: {field: value}}
+function parseFilter(value: unknown): Record<string, string> {
+    const invalid = new ValidationError('filter must be filter[field]=value', {
+        param: 'filter',
+    });
+    if (typeof value !== 'object' || value === null || Array.isArray(value))
+        throw invalid;
+    for (const v of Object.values(value)) {
+        if (typeof v !== 'string') throw invalid;
+    }
+    return value as Record<string, string>;
+}
+
+/**
+ * Reads the list grammar shared by the list endpoints:
+ * `?page=&pageSize=&sort=field:asc&filter[field]=value&q=text`, or
+ * `?cursor=` from a previous page instead of `page`. Returns null when none
+ * of these is present, so plain GETs keep returning the full array.
+ */
+export function parseListQuery(
+    query: Record<string, unknown>,
+): PageQuery | null {
+    if (!LIST_PARAMS.some((param) => query[param] !== undefined)) return null;
+    const limit =
+        query.pageSize === undefined
+            ? DEFAULT_PAGE_SIZE
+            : positiveInt(query.pageSize, 'pageSize');
+    if (limit > MAX_PAGE_SIZE)
+        throw new ValidationError(`pageSize must be at most ${MAX_PAGE_SIZE}`, {
+            param: 'pageSize',
+        });
+    let offset = 0;
+    if (query.cursor !== undefined) {
+        const decoded =
+            typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+        if (decoded === null)
+            throw new ValidationError('invalid cursor', {param: 'cursor'});
+        offset = decoded;
+    } else if (query.page !== undefined) {
+        offset = (positiveInt(query.page, 'page') - 1) * limit;
+    }
+    if (query.q !== undefined && typeof query.q !== 'string')
+        throw new ValidationError('q must be a single value', {param: 'q'});
+    return {
+        offset,
+        limit,
+        sort: query.sort === undefined ? undefined : parseSort(query.sort),
+        filter:
+            query.filter === undefined ? undefined : parseFilter(query.filter),
+        q: query.q ? query.q.trim() || undefined : undefined,
+        ...parseReadOptions(query),
+    };
+}
@@ -0,0 +1,16 @@
+import {randomUUID} from 'crypto';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Tags each request with an id (the caller's X-Request-Id when it sends a
+// sane one) and echoes it back so logs, audit entries and client reports
+// can be matched up.
+export function requestId(req: any, res: any, next: () => void) {
+    const incoming = req.headers?.[REQUEST_ID_HEADER];
+    req.requestId =
+        typeof incoming === 'string' && /^[\w.:-]{1,128}$/.test(incoming)
+            ? incoming
+            : randomUUID();
+    res.setHeader(REQUEST_ID_HEADER, req.requestId);
+    next();
+}
@@ -0,0 +1,47 @@
+import {ValidationError as FieldError, ValidationPipe} from '@nestjs/common';
+import {plainToInstance} from 'class-transformer';
+import {validate} from 'class-validator';
+import {ValidationError} from '../errors';
+
+// Flattens nested errors into {"details.entity": ["entity must be a string"]}
+function fieldErrors(
+    errors: FieldError[],
+    prefix = '',
+    out: Record<string, string[]> = {},
+): Record<string, string[]> {
+    for (const error of errors) {
+        const field = prefix + error.property;
+        if (error.constraints) out[field] = Object.values(error.constraints);
+        if (error.children?.length)
+            fieldErrors(error.children, `${field}.`, out);
+    }
+    return out;
+}
+
+/**
+ * Validates @Body() DTO classes and hands the handler a DTO instance:
+ * unknown properties are dropped and any problems come back as a 400
+ * whose details list the messages per field. Bodies typed `any` are passed
+ * through untouched.
+ */
+export function createValidationPipe() {
+    return new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        exceptionFactory: (errors) =>
+            new ValidationError('validation failed', {
+                fields: fieldErrors(errors),
+            }),
+    });
+}
+
+// The pipe's checks for one record outside a request body, e.g. a row of a
+// bulk import: the DTO's fields, or the messages per field
+export async function validateRecord<T extends object>(
+    dto: new () => T,
+    plain: Record<string, unknown>,
+): Promise<{value: T; fields: Record<string, string[]>}> {
+    const value = plainToInstance(dto, plain);
+    const errors = await validate(value, {whitelist: true});
+    return {value, fields: fieldErrors(errors)};
+}
@@ -1,5 +1,6 @@
 import 'reflect-metadata';
-import {NestFactory} from '@nestjs/core';
+import {NestFactory, Reflector} from '@nestjs/core';
+import {NestExpressApplication} from '@nestjs/platform-express';
 import {Module} from '@nestjs/common';
 import {
     Controller,
@@ -13,6 +14,10 @@ import {
     Res,
     HttpStatus,
     Patch,
+    Req,
+    HttpCode,
+    HttpException,
+    ParseIntPipe,
 } from '@nestjs/common';
 import dotenv from 'dotenv';
 import path from 'path';
@@ -28,7 +33,91 @@ import {PipelineConfigService} from './services/pipelineConfig';
 import {ServicesService} from './services/services';
 import {ProductsService} from './services/products';
 import {EnterpriseProductsServicesService} from './services/enterpriseProductsServices';
-import {testConnection} from './db';
+import {GlobalSettingsService} from './services/globalSettings';
+import {AuthService} from './services/auth';
+import {PasswordsService, meetsComplexity} from './services/passwords';
+import {LockoutService} from './services/lockout';
+import {JwtAuthGuard, PermissionsGuard, Public} from './auth/guard';
+import {
+    Authenticated,
+    RequirePermission,
+    Resource,
+    hasPermission,
+} from './auth/permissions';
+import {PermissionsService} from './services/permissions';
+import {Throttle} from './auth/throttle';
+import {AuditAction, AuditService} from './services/audit';
+import {SEARCH_SOURCES, SearchService} from './services/search';
+import {IntegrityService} from './services/integrity';
+import {PurgeService} from './services/purge';
+import {BulkImportService} from './services/bulkImport';
+import {RestoreReport, SnapshotsService} from './services/snapshots';
+import {LicensesService} from './services/licenses';
+import {
+    Audit,
+    AuditId,
+    AuditInterceptor,
+    AuditState,
+    AuditTarget,
+    auditOne,
+} from './http/auditInterceptor';
+import {requestId} from './http/requestId';
+import {createValidationPipe} from './http/validation';
+import {ErrorEnvelopeFilter} from './http/errorFilter';
+import {
+    parseListQuery,
+    parseReadOptions,
+    positiveInt,
+} from './http/listQuery';
+import {EtagInterceptor, IfMatch, etagOf} from './http/etag';
+import {
+    importRecords,
+    parseDryRun,
+    parseFlag,
+    parseExportFormat,
+    sendExport,
+} from './http/bulk';
+import {NotFoundError, ValidationError} from './errors';
+import {ChangePasswordDto, LoginDto, RefreshDto} from './dto/auth';
+import {CreateAccountDto, UpdateAccountDto} from './dto/accounts';
+import {
+    CreateBusinessUnitDto,
+    UpdateBusinessUnitDto,
+} from './dto/businessUnits';
+import {NamedEntityDto, UpdateNamedEntityDto} from './dto/catalog';
+import {
+    CreateEnterpriseProductServiceDto,
+    EnterpriseCatalogueDto,
+    UpdateEnterpriseProductServiceDto,
+} from './dto/enterpriseProductsServices';
+import {
+    CreateGlobalSettingDto,
+    UpdateGlobalSettingDto,
+} from './dto/globalSettings';
+import {
+    AssignUserGroupDto,
+    CreateGroupDto,
+    UpdateGroupDto,
+} from './dto/groups';
+import {LicenseDto} from './dto/licenses';
+import {
+    CreateTemplateDto,
+    PipelineYamlDto,
+    TemplateDto,
+} from './dto/templates';
+import {
+    AssignGroupDto,
+    CreateUserDto,
+    ResetPasswordDto,
+    SetPasswordDto,
+    UpdateUserDto,
+    UserLockDto,
+    UserStatusDto,
+} from './dto/users';
+import {getStorageMode, testConnection} from './db';
+import {AUTH, BODY_LIMIT, SOFT_DELETE, STORAGE_MODE} from './config';
+import {WriteOptions, createRepositoryFactory} from './repositories';
+import {migrateUp} from './migrate';
 
 dotenv.config();
 
@@ -50,22 +139,163 @@ const GEO_DATA: Record<string, Record<string, string[]>> = {
     },
 };
 
+// Storage backend is chosen once; services only see the repository interface
+const repositories = createRepositoryFactory(getStorageMode(), STORAGE_DIR);
+
 // Providers (plain classes)
-const accounts = new AccountsService(STORAGE_DIR);
-const enterprises = new EnterprisesService(STORAGE_DIR);
-const businessUnits = new BusinessUnitsService(STORAGE_DIR);
-const users = new UsersService(STORAGE_DIR);
-const userGroups = new UserGroupsService(STORAGE_DIR);
-const groups = new GroupsService(STORAGE_DIR);
-const templates = new TemplatesService(STORAGE_DIR);
-const pipelineYaml = new PipelineYamlService(STORAGE_DIR);
-const pipelineConfig = new PipelineConfigService(STORAGE_DIR);
-const services = new ServicesService(STORAGE_DIR);
-const products = new ProductsService(STORAGE_DIR);
+const accounts = new AccountsService(repositories);
+const enterprises = new EnterprisesService(repositories);
+const businessUnits = new BusinessUnitsService(repositories);
+const users = new UsersService(repositories);
+const userGroups = new UserGroupsService(repositories);
+const groups = new GroupsService(repositories);
+const templates = new TemplatesService(repositories);
+const pipelineYaml = new PipelineYamlService(repositories);
+const pipelineConfig = new PipelineConfigService(repositories);
+const services = new ServicesService(repositories);
+const products = new ProductsService(repositories);
+const licenses = new LicensesService(repositories);
 const enterpriseProductsServices = new EnterpriseProductsServicesService(
-    STORAGE_DIR,
+    repositories,
+    licenses,
+);
+const globalSettings = new GlobalSettingsService(repositories);
+const passwords = new PasswordsService(repositories);
+const lockout = new LockoutService(repositories, users, passwords);
+const auth = new AuthService(users, passwords, lockout);
+const loginThrottle = new Throttle(AUTH.loginRateLimit, AUTH.loginRateWindow);
+const permissions = new PermissionsService(groups, userGroups);
+const audit = new AuditService(repositories);
+const search = new SearchService(repositories);
+const integrity = new IntegrityService(repositories);
+const purge = new PurgeService(
+    repositories,
+    integrity,
+    SOFT_DELETE.retentionDays,
+);
+const bulk = new BulkImportService(repositories, {
+    accounts,
+    enterprises,
+    products,
+    services,
+    linkages: enterpriseProductsServices,
+    licenses,
+});
+const snapshots = new SnapshotsService(
+    repositories,
+    enterpriseProductsServices,
 );
 
+// How audited routes read the one record they change, by audit entity.
+// Soft-deleted records are included so deletes and restores show what
+// changed.
+const withDeleted = {includeDeleted: true};
+const auditLoaders: Record<string, (id: string) => Promise<unknown>> = {
+    accounts: (id) => accounts.get(Number(id), withDeleted),
+    enterprises: (id) => enterprises.get(Number(id), withDeleted),
+    'business-units': (id) => businessUnits.get(Number(id)),
+    'global-settings': (id) => globalSettings.get(id),
+    services: (id) => services.get(Number(id), withDeleted),
+    products: (id) => products.get(Number(id), withDeleted),
+    users: (id) => users.get(id, withDeleted),
+    credentials: (id) => passwords.summary(id),
+    groups: (id) => groups.get(id),
+    templates: (id) => templates.get(id, withDeleted),
+    'pipeline-yaml': async (id) => ({yaml: await pipelineYaml.get(id)}),
+    'pipeline-config': () => pipelineConfig.get(),
+    'enterprise-products-services': (id) =>
+        enterpriseProductsServices.get(Number(id)),
+    licenses: (id) => licenses.get(Number(id)),
+};
+
+// Audits a route that changes the one record of `entity` `id` finds
+const Audited = (entity: string, action: AuditAction, id: AuditId) =>
+    Audit(auditOne(entity, action, id, auditLoaders[entity]));
+
+// Where routes find that id
+const param =
+    (name: string): AuditId =>
+    (req) =>
+        req.params[name];
+const bodyId: AuditId = (req) => req.body?.id;
+const createdId: AuditId = (req, response) => response?.id;
+
+function byId(records: {id: unknown}[]): AuditState {
+    return Object.fromEntries(records.map((r) => [String(r.id), r]));
+}
+
+// Imports may write any record of the entity, so all of them are compared
+const Imported = (entity: string, list: () => Promise<{id: unknown}[]>) =>
+    Audit({entity, action: 'import', state: async () => byId(await list())});
+
+// A user's group assignments as username/groupId
+const Memberships = (
+    action: AuditAction,
+    username: (req: any) => Promise<string>,
+) =>
+    Audit({
+        entity: 'user-groups',
+        action,
+        state: async (req) => {
+            const name = await username(req);
+            const assigned = await userGroups.list(name);
+            return Object.fromEntries(
+                assigned.map((g) => [`${name}/${g.id}`, g]),
+            );
+        },
+    });
+const usernameOf = async (req: any) =>
+    (await users.get(req.params.id)).username;
+
+// The linkages of one enterprise, product or service as one record, e.g.
+// enterprise/7 with the linkages by id
+const LINKAGES_OF = {
+    enterprise: (id: number) => enterpriseProductsServices.getByEnterprise(id),
+    product: (id: number) => enterpriseProductsServices.getByProduct(id),
+    service: (id: number) => enterpriseProductsServices.getByService(id),
+};
+const Linkages = (action: AuditAction, part: keyof typeof LINKAGES_OF) =>
+    Audit({
+        entity: 'enterprise-products-services',
+        action,
+        state: async (req) => {
+            const id = Number(req.params[`${part}Id`]);
+            return {[`${part}/${id}`]: byId(await LINKAGES_OF[part](id))};
+        },
+    });
+
+// ?accountId= and ?enterpriseId= of a snapshot restore
+function restoreTarget(query: Record<string, unknown>) {
+    const optional = (name: string) =>
+        query[name] === undefined ? undefined : positiveInt(query[name], name);
+    return {
+        accountId: optional('accountId'),
+        enterpriseId: optional('enterpriseId'),
+    };
+}
+
+// The tenant's whole snapshot as accountId/enterpriseId; before a restore
+// the tenant it would use, afterwards the one it did
+const restoredTenant: AuditTarget = {
+    entity: 'tenants',
+    action: 'import',
+    state: async (req, report?: RestoreReport) => {
+        const target = (entity: string) =>
+            report?.items.find((i) => i.entity === entity)?.targetId;
+        const tenant = report
+            ? {accountId: target('account'), enterpriseId: target('enterprise')}
+            : await snapshots.locate(req.body, restoreTarget(req.query));
+        if (!tenant?.accountId || !tenant.enterpriseId) return {};
+        const {accountId, enterpriseId} = tenant;
+        const {exportedAt, ...bundle} = await snapshots.export(
+            Number(accountId),
+            Number(enterpriseId),
+        );
+        return {[`${accountId}/${enterpriseId}`]: bundle};
+    },
+};
+
+@Public()
 @Controller('health')
 class HealthController {
     @Get()
@@ -74,84 +304,259 @@ class HealthController {
     }
 }
 
+// Auth results carry their own status; passwordChangeRequired becomes the
+// PASSWORD_CHANGE_REQUIRED code so clients can route to the change form
+function authFailure(result: {
+    error: string;
+    status: HttpStatus;
+    passwordChangeRequired?: boolean;
+}) {
+    return new HttpException(
+        result.passwordChangeRequired
+            ? {message: result.error, code: 'PASSWORD_CHANGE_REQUIRED'}
+            : result.error,
+        result.status,
+    );
+}
+
+@Public()
+@Controller('api/auth')
+class AuthController {
+    // Per client IP, shared by every route that checks a password
+    private throttle(req: any, res: any) {
+        const retryAfter = loginThrottle.hit(req.ip || 'unknown');
+        if (!retryAfter) return;
+        res.setHeader('Retry-After', String(retryAfter));
+        throw new HttpException(
+            'too many login attempts; try again later',
+            HttpStatus.TOO_MANY_REQUESTS,
+        );
+    }
+
+    // Accepts either the username or the email as `username`
+    @Post('login')
+    @HttpCode(HttpStatus.OK)
+    async login(
+        @Body() body: LoginDto,
+        @Req() req: any,
+        @Res({passthrough: true}) res: any,
+    ) {
+        this.throttle(req, res);
+        const result = await auth.login(
+            body.username || body.email || '',
+            body.password,
+        );
+        if ('error' in result) throw authFailure(result);
+        return result.tokens;
+    }
+
+    @Post('change-password')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async changePassword(
+        @Body() body: ChangePasswordDto,
+        @Req() req: any,
+        @Res({passthrough: true}) res: any,
+    ) {
+        this.throttle(req, res);
+        const result = await auth.changePassword(
+            body.username || body.email || '',
+            body.currentPassword,
+            body.newPassword,
+        );
+        if ('error' in result) throw authFailure(result);
+    }
+
+    @Post('refresh')
+    @HttpCode(HttpStatus.OK)
+    async refresh(@Body() body: RefreshDto) {
+        const result = await auth.refresh(body.refreshToken);
+        if ('error' in result) throw authFailure(result);
+        return result.tokens;
+    }
+}
+
+
+@Resource('accounts')
 @Controller('api/accounts')
 class AccountsController {
     @Get()
-    async list() {
-        return await accounts.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await accounts.page(page)
+            : await accounts.list(parseReadOptions(query));
+    }
+
+    // ?format=json|csv; the columns imports take, plus id
+    @Get('export')
+    async exportAll(
+        @Query('format') format: unknown,
+        @Res({passthrough: true}) res: any,
+    ) {
+        const as = parseExportFormat(format);
+        const table = await bulk.export('accounts');
+        return sendExport(res, 'accounts', as, table);
+    }
+
+    // Upserts a JSON array or text/csv body by accountName;
+    // ?dryRun=true only previews
+    @Post('import')
+    @Imported('accounts', () => accounts.list())
+    @HttpCode(HttpStatus.OK)
+    async importAll(@Body() body: unknown, @Query('dryRun') dryRun: unknown) {
+        return await bulk.import(
+            'accounts',
+            importRecords(body),
+            parseDryRun(dryRun),
+        );
     }
 
     @Get(':id')
-    async get(@Param('id') id: string) {
-        return await accounts.get(Number(id));
+    async get(
+        @Param('id', ParseIntPipe) id: number,
+        @Query() query: Record<string, unknown>,
+    ) {
+        return await accounts.get(id, parseReadOptions(query));
     }
 
     @Post()
-    async create(@Body() body: any) {
+    @Audited('accounts', 'create', createdId)
+    async create(@Body() body: CreateAccountDto) {
         return await accounts.create(body);
     }
 
     @Put()
-    async update(@Body() body: any) {
-        const {id, ...rest} = body || {};
-        if (!id) return {error: 'id required'};
-        const updated = await accounts.update(Number(id), rest);
-        if (!updated) return {error: 'Not found'};
-        return updated;
+    @Audited('accounts', 'update', bodyId)
+    async update(
+        @Body() body: UpdateAccountDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        const {id, ...rest} = body;
+        return await accounts.update(id, rest, precondition);
+    }
+
+    // Dependents a delete would remove, or that would block it
+    @Get(':id/delete-impact')
+    async deleteImpact(@Param('id', ParseIntPipe) id: number) {
+        return await integrity.impact('account', id);
     }
 
     @Delete(':id')
-    async remove(@Param('id') id: string) {
-        await accounts.remove(Number(id));
-        return {};
+    @Audited('accounts', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+        await integrity.check('account', id);
+        await accounts.remove(id, req.user.username);
+    }
+
+    @Post(':id/restore')
+    @Audited('accounts', 'restore', param('id'))
+    @HttpCode(HttpStatus.OK)
+    async restore(@Param('id', ParseIntPipe) id: number) {
+        return await accounts.restore(id);
     }
 }
 
+@Resource('enterprises')
 @Controller('api/enterprises')
 class EnterprisesController {
     @Get()
-    async list() {
-        return await enterprises.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await enterprises.page(page)
+            : await enterprises.list(parseReadOptions(query));
+    }
+
+    // ?format=json|csv; the columns imports take, plus id
+    @Get('export')
+    async exportAll(
+        @Query('format') format: unknown,
+        @Res({passthrough: true}) res: any,
+    ) {
+        const as = parseExportFormat(format);
+        const table = await bulk.export('enterprises');
+        return sendExport(res, 'enterprises', as, table);
+    }
+
+    // Creates the names of a JSON array or text/csv body that don't exist
+    // yet; ?dryRun=true only previews
+    @Post('import')
+    @Imported('enterprises', () => enterprises.list())
+    @HttpCode(HttpStatus.OK)
+    async importAll(@Body() body: unknown, @Query('dryRun') dryRun: unknown) {
+        return await bulk.import(
+            'enterprises',
+            importRecords(body),
+            parseDryRun(dryRun),
+        );
     }
 
     @Get(':id')
-    async get(@Param('id') id: string) {
-        return await enterprises.get(Number(id));
+    async get(
+        @Param('id', ParseIntPipe) id: number,
+        @Query() query: Record<string, unknown>,
+    ) {
+        return await enterprises.get(id, parseReadOptions(query));
     }
 
     @Post()
-    async create(@Body() body: any) {
+    @Audited('enterprises', 'create', createdId)
+    async create(@Body() body: NamedEntityDto) {
         return await enterprises.create(body);
     }
 
     @Put(':id')
-    async update(@Param('id') id: string, @Body() body: any) {
-        const updated = await enterprises.update(Number(id), body);
-        if (!updated) return {error: 'Not found'};
-        return updated;
+    @Audited('enterprises', 'update', param('id'))
+    async update(
+        @Param('id', ParseIntPipe) id: number,
+        @Body() body: NamedEntityDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        return await enterprises.update(id, body, precondition);
     }
 
     @Put()
-    async updateWithIdInBody(@Body() body: any) {
-        const {id, ...rest} = body || {};
-        if (!id) return {error: 'id required'};
-        const updated = await enterprises.update(Number(id), rest);
-        if (!updated) return {error: 'Not found'};
-        return updated;
+    @Audited('enterprises', 'update', bodyId)
+    async updateWithIdInBody(
+        @Body() body: UpdateNamedEntityDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        const {id, ...rest} = body;
+        return await enterprises.update(id, rest, precondition);
+    }
+
+    // Dependents a delete would remove, or that would block it
+    @Get(':id/delete-impact')
+    async deleteImpact(@Param('id', ParseIntPipe) id: number) {
+        return await integrity.impact('enterprise', id);
     }
 
     @Delete(':id')
-    async remove(@Param('id') id: string) {
-        await enterprises.remove(Number(id));
-        return {};
+    @Audited('enterprises', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+        await integrity.check('enterprise', id);
+        await enterprises.remove(id, req.user.username);
+    }
+
+    @Post(':id/restore')
+    @Audited('enterprises', 'restore', param('id'))
+    @HttpCode(HttpStatus.OK)
+    async restore(@Param('id', ParseIntPipe) id: number) {
+        return await enterprises.restore(id);
     }
 }
 
+@Resource('business-units')
 @Controller('api/business-units')
 class BusinessUnitsController {
     @Get()
-    async list() {
-        return await businessUnits.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await businessUnits.page(page)
+            : await businessUnits.list();
     }
     @Get('entities')
     async listEntities(
@@ -162,289 +567,634 @@ class BusinessUnitsController {
         return await businessUnits.listEntities(accountId, enterpriseId);
     }
     @Post()
-    async create(@Body() body: any) {
-        return await businessUnits.create(body);
+    @Audited('business-units', 'create', createdId)
+    async create(@Body() body: CreateBusinessUnitDto, @Req() req: any) {
+        return await businessUnits.create({
+            ...body,
+            createdBy: req.user.username,
+            lastUpdatedBy: req.user.username,
+        });
     }
     @Put()
-    async update(@Body() body: any) {
-        const {id, ...rest} = body || {};
-        if (!id) return {error: 'id required'};
-        const updated = await businessUnits.update(Number(id), rest);
-        if (!updated) return {error: 'Not found'};
-        return updated;
+    @Audited('business-units', 'update', bodyId)
+    async update(
+        @Body() body: UpdateBusinessUnitDto,
+        @Req() req: any,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        const {id, ...rest} = body;
+        return await businessUnits.update(
+            id,
+            {...rest, lastUpdatedBy: req.user.username},
+            precondition,
+        );
     }
     @Delete(':id')
+    @Audited('business-units', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id', ParseIntPipe) id: number) {
+        await businessUnits.remove(id);
+    }
+}
+
+@Resource('global-settings')
+@Controller('api/global-settings')
+class GlobalSettingsController {
+    @Get()
+    async list(
+        @Query('accountId') accountId?: string,
+        @Query('enterpriseId') enterpriseId?: string,
+    ) {
+        if (!accountId) return await globalSettings.list();
+        const rows = await globalSettings.listByAccount(accountId);
+        return enterpriseId
+            ? rows.filter((r) => r.enterpriseId === enterpriseId)
+            : rows;
+    }
+
+    // Lookup of the single settings record for an account/enterprise pair
+    @Get('account/:accountId/enterprise/:enterpriseId')
+    async getByAccountAndEnterprise(
+        @Param('accountId') accountId: string,
+        @Param('enterpriseId') enterpriseId: string,
+    ) {
+        const found = await globalSettings.findByAccountAndEnterprise(
+            accountId,
+            enterpriseId,
+        );
+        if (!found) throw new NotFoundError('global setting');
+        return found;
+    }
+
+    @Get('account/:accountId')
+    async listByAccount(@Param('accountId') accountId: string) {
+        return await globalSettings.listByAccount(accountId);
+    }
+
+    // Lookup by slugified names, e.g. /slug/acme-corp/north-america
+    @Get('slug/:accountSlug/:enterpriseSlug')
+    async getBySlug(
+        @Param('accountSlug') accountSlug: string,
+        @Param('enterpriseSlug') enterpriseSlug: string,
+    ) {
+        const found = await globalSettings.findBySlug(
+            accountSlug,
+            enterpriseSlug,
+        );
+        if (!found) throw new NotFoundError('global setting');
+        return found;
+    }
+
+    @Get(':id')
+    async get(@Param('id') id: string) {
+        return await globalSettings.get(id);
+    }
+
+    @Post()
+    @Audited('global-settings', 'create', createdId)
+    async create(@Body() body: CreateGlobalSettingDto) {
+        return await globalSettings.create(body);
+    }
+
+    @Put(':id')
+    @Audited('global-settings', 'update', param('id'))
+    async update(
+        @Param('id') id: string,
+        @Body() body: UpdateGlobalSettingDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        return await globalSettings.update(id, body, precondition);
+    }
+
+    @Delete(':id')
+    @Audited('global-settings', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
     async remove(@Param('id') id: string) {
-        await businessUnits.remove(Number(id));
-        return {};
+        await globalSettings.remove(id);
     }
 }
 
+@Resource('services')
 @Controller('api/services')
 class ServicesController {
     @Get()
-    async list() {
-        return await services.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await services.page(page)
+            : await services.list(parseReadOptions(query));
+    }
+
+    // ?format=json|csv; the columns imports take, plus id
+    @Get('export')
+    async exportAll(
+        @Query('format') format: unknown,
+        @Res({passthrough: true}) res: any,
+    ) {
+        const as = parseExportFormat(format);
+        const table = await bulk.export('services');
+        return sendExport(res, 'services', as, table);
+    }
+
+    // Creates the names of a JSON array or text/csv body that don't exist
+    // yet; ?dryRun=true only previews
+    @Post('import')
+    @Imported('services', () => services.list())
+    @HttpCode(HttpStatus.OK)
+    async importAll(@Body() body: unknown, @Query('dryRun') dryRun: unknown) {
+        return await bulk.import(
+            'services',
+            importRecords(body),
+            parseDryRun(dryRun),
+        );
     }
 
     @Get('debug')
+    @RequirePermission('services:admin')
     async debug() {
         return await services.debugTableContents();
     }
 
     @Get(':id')
-    async get(@Param('id') id: string) {
-        return await services.get(Number(id));
+    async get(
+        @Param('id', ParseIntPipe) id: number,
+        @Query() query: Record<string, unknown>,
+    ) {
+        return await services.get(id, parseReadOptions(query));
     }
 
     @Post()
-    async create(@Body() body: any) {
+    @Audited('services', 'create', createdId)
+    async create(@Body() body: NamedEntityDto) {
         return await services.create(body);
     }
 
     @Put()
-    async update(@Body() body: any) {
-        const {id, ...rest} = body || {};
-        if (!id) return {error: 'id required'};
-        const updated = await services.update(Number(id), rest);
-        if (!updated) return {error: 'Not found'};
-        return updated;
+    @Audited('services', 'update', bodyId)
+    async update(
+        @Body() body: UpdateNamedEntityDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        const {id, ...rest} = body;
+        return await services.update(id, rest, precondition);
+    }
+
+    // Dependents a delete would remove, or that would block it
+    @Get(':id/delete-impact')
+    async deleteImpact(@Param('id', ParseIntPipe) id: number) {
+        return await integrity.impact('service', id);
     }
 
     @Delete(':id')
-    async remove(@Param('id') id: string) {
-        await services.remove(Number(id));
-        return {};
+    @Audited('services', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+        await integrity.check('service', id);
+        await services.remove(id, req.user.username);
+    }
+
+    @Post(':id/restore')
+    @Audited('services', 'restore', param('id'))
+    @HttpCode(HttpStatus.OK)
+    async restore(@Param('id', ParseIntPipe) id: number) {
+        return await services.restore(id);
     }
 }
 
+@Resource('products')
 @Controller('api/products')
 class ProductsController {
     @Get()
-    async list() {
-        return await products.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await products.page(page)
+            : await products.list(parseReadOptions(query));
+    }
+
+    // ?format=json|csv; the columns imports take, plus id
+    @Get('export')
+    async exportAll(
+        @Query('format') format: unknown,
+        @Res({passthrough: true}) res: any,
+    ) {
+        const as = parseExportFormat(format);
+        const table = await bulk.export('products');
+        return sendExport(res, 'products', as, table);
+    }
+
+    // Creates the names of a JSON array or text/csv body that don't exist
+    // yet; ?dryRun=true only previews
+    @Post('import')
+    @Imported('products', () => products.list())
+    @HttpCode(HttpStatus.OK)
+    async importAll(@Body() body: unknown, @Query('dryRun') dryRun: unknown) {
+        return await bulk.import(
+            'products',
+            importRecords(body),
+            parseDryRun(dryRun),
+        );
     }
 
     @Get(':id')
-    async get(@Param('id') id: string) {
-        return await products.get(Number(id));
+    async get(
+        @Param('id', ParseIntPipe) id: number,
+        @Query() query: Record<string, unknown>,
+    ) {
+        return await products.get(id, parseReadOptions(query));
     }
 
     @Post()
-    async create(@Body() body: any) {
+    @Audited('products', 'create', createdId)
+    async create(@Body() body: NamedEntityDto) {
         return await products.create(body);
     }
 
     @Put()
-    async update(@Body() body: any) {
-        const {id, ...rest} = body || {};
-        if (!id) return {error: 'id required'};
-        const updated = await products.update(Number(id), rest);
-        if (!updated) return {error: 'Not found'};
-        return updated;
+    @Audited('products', 'update', bodyId)
+    async update(
+        @Body() body: UpdateNamedEntityDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        const {id, ...rest} = body;
+        return await products.update(id, rest, precondition);
+    }
+
+    // Dependents a delete would remove, or that would block it
+    @Get(':id/delete-impact')
+    async deleteImpact(@Param('id', ParseIntPipe) id: number) {
+        return await integrity.impact('product', id);
     }
 
     @Delete(':id')
-    async remove(@Param('id') id: string) {
-        await products.remove(Number(id));
-        return {};
+    @Audited('products', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+        await integrity.check('product', id);
+        await products.remove(id, req.user.username);
+    }
+
+    @Post(':id/restore')
+    @Audited('products', 'restore', param('id'))
+    @HttpCode(HttpStatus.OK)
+    async restore(@Param('id', ParseIntPipe) id: number) {
+        return await products.restore(id);
     }
 }
 
+@Resource('users')
 @Controller('api/users')
 class UsersController {
     @Get()
-    async list() {
-        return await users.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await users.page(page)
+            : await users.list(parseReadOptions(query));
+    }
+    @Get(':id')
+    async get(
+        @Param('id') id: string,
+        @Query() query: Record<string, unknown>,
+    ) {
+        return await users.get(id, parseReadOptions(query));
     }
     @Post()
-    async create(@Body() body: any, @Res() res: any) {
-        const existing = users.getByEmail(body?.email);
-        if (existing) {
-            return res
-                .status(HttpStatus.CONFLICT)
-                .json({error: 'email already exists'});
-        }
-        const created = await users.create(body);
-        return res.status(HttpStatus.CREATED).json(created);
+    @Audited('users', 'create', createdId)
+    async create(@Body() body: CreateUserDto) {
+        await licenses.assertSeat(body);
+        return await users.create(body);
     }
     @Put()
-    async update(@Body() body: any, @Res() res: any) {
-        const {id, ...rest} = body || {};
-        if (!id)
-            return res
-                .status(HttpStatus.BAD_REQUEST)
-                .json({error: 'id required'});
-        const exists = users.getById(id);
-        if (!exists)
-            return res.status(HttpStatus.NOT_FOUND).json({error: 'Not found'});
-        const updated = await users.update(id, rest);
-        return res.status(HttpStatus.OK).json(updated);
+    @Audited('users', 'update', bodyId)
+    async update(
+        @Body() body: UpdateUserDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        const {id, ...rest} = body;
+        await licenses.assertSeat(rest, await users.get(id));
+        return await users.update(id, rest, precondition);
+    }
+    // Dependents a delete would remove, or that would block it
+    @Get(':id/delete-impact')
+    async deleteImpact(@Param('id') id: string) {
+        return await integrity.impact('user', id);
     }
+
     @Delete(':id')
-    async remove(@Param('id') id: string, @Res() res: any) {
-        const exists = users.getById(id);
-        if (!exists)
-            return res.status(HttpStatus.NOT_FOUND).json({error: 'Not found'});
-        await users.remove(id);
-        return res.status(HttpStatus.NO_CONTENT).send();
+    @Audited('users', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id') id: string, @Req() req: any) {
+        await integrity.check('user', id);
+        await users.remove(id, req.user.username);
+    }
+
+    @Post(':id/restore')
+    @Audited('users', 'restore', param('id'))
+    @HttpCode(HttpStatus.OK)
+    async restore(@Param('id') id: string) {
+        const deleted = await users.get(id, withDeleted);
+        await licenses.assertSeat({...deleted, deletedAt: null});
+        return await users.restore(id);
     }
 
     // Optional granular endpoints
     @Patch(':id/status')
+    @Audited('users', 'update', param('id'))
     async updateStatus(
         @Param('id') id: string,
-        @Body() body: any,
-        @Res() res: any,
-    ) {
-        const exists = users.getById(id);
-        if (!exists)
-            return res.status(HttpStatus.NOT_FOUND).json({error: 'Not found'});
-        if (!['ACTIVE', 'INACTIVE'].includes(body?.status)) {
-            return res
-                .status(HttpStatus.BAD_REQUEST)
-                .json({error: 'invalid status'});
-        }
-        const updated = users.partialUpdate(id, {status: body.status});
-        return res.status(HttpStatus.OK).json(updated);
+        @Body() body: UserStatusDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        const user = await users.get(id);
+        await licenses.assertSeat({...user, status: body.status}, user);
+        return await users.partialUpdate(
+            id,
+            {status: body.status},
+            precondition,
+        );
     }
 
+    // Manual locks have no expiry; `reason` is kept in the lock history
     @Patch(':id/lock')
+    @Audited('users', 'update', param('id'))
+    @RequirePermission('users:admin')
     async updateLock(
         @Param('id') id: string,
-        @Body() body: any,
-        @Res() res: any,
-    ) {
-        const exists = users.getById(id);
-        if (!exists)
-            return res.status(HttpStatus.NOT_FOUND).json({error: 'Not found'});
-        if (typeof body?.locked !== 'boolean') {
-            return res
-                .status(HttpStatus.BAD_REQUEST)
-                .json({error: 'invalid locked flag'});
-        }
-        const updated = users.partialUpdate(id, {locked: body.locked});
-        return res.status(HttpStatus.OK).json(updated);
+        @Body() body: UserLockDto,
+        @Req() req: any,
+    ) {
+        const user = await users.get(id);
+        const actor = req.user.username;
+        return body.locked
+            ? await lockout.lock(
+                  user,
+                  body.reason || 'locked by administrator',
+                  actor,
+              )
+            : await lockout.unlock(
+                  user,
+                  body.reason || 'unlocked by administrator',
+                  actor,
+              );
+    }
+
+    // Why and when the user was locked or unlocked, newest first
+    @Get(':id/lock-history')
+    async lockHistory(@Param('id') id: string) {
+        await users.get(id);
+        return await lockout.history(id);
     }
 
     @Post(':id/password')
+    @Audited('credentials', 'update', param('id'))
+    @RequirePermission('users:admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
     async updatePassword(
         @Param('id') id: string,
-        @Body() body: any,
-        @Res() res: any,
-    ) {
-        const exists = users.getById(id);
-        if (!exists)
-            return res.status(HttpStatus.NOT_FOUND).json({error: 'Not found'});
-        const pwd: string = body?.password || '';
-        const valid =
-            /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[^\da-zA-Z]).{8,}$/.test(pwd);
-        if (!valid)
-            return res.status(HttpStatus.BAD_REQUEST).json({
-                error: 'password does not meet complexity requirements',
-            });
-        // No-op store for filesystem mode
-        return res.status(HttpStatus.NO_CONTENT).send();
+        @Body() body: SetPasswordDto,
+    ) {
+        await users.get(id);
+        if (!meetsComplexity(body.password))
+            throw new ValidationError(
+                'password does not meet complexity requirements',
+            );
+        const error = await passwords.set(id, body.password);
+        if (error) throw new ValidationError(error);
+    }
+
+    // Admin reset: temporary password (generated unless given) that the
+    // user must change at next login
+    @Post(':id/password/reset')
+    @Audited('credentials', 'update', param('id'))
+    @RequirePermission('users:admin')
+    @HttpCode(HttpStatus.OK)
+    async resetPassword(
+        @Param('id') id: string,
+        @Body() body: ResetPasswordDto,
+    ) {
+        await users.get(id);
+        if (body.password !== undefined && !meetsComplexity(body.password))
+            throw new ValidationError(
+                'password does not meet complexity requirements',
+            );
+        const result = await passwords.reset(id, body.password);
+        if ('error' in result) throw new ValidationError(result.error);
+        return {temporaryPassword: result.password, mustChange: true};
     }
 
     // Group assignment endpoints
     @Post(':id/groups')
+    @Memberships('create', usernameOf)
+    @RequirePermission('users:admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
     async assignGroup(
         @Param('id') id: string,
-        @Body() body: any,
-        @Res() res: any,
-    ) {
-        const user = users.getById(id);
-        if (!user)
-            return res
-                .status(HttpStatus.NOT_FOUND)
-                .json({error: 'User not found'});
-        const group = groups.get(body?.groupId);
-        if (!group)
-            return res
-                .status(HttpStatus.NOT_FOUND)
-                .json({error: 'Group not found'});
+        @Body() body: AssignGroupDto,
+    ) {
+        const user = await users.get(id);
+        const group = await groups.get(body.groupId);
         await userGroups.create(user.username, {
             id: group.id,
             name: group.name,
             description: group.description,
         });
-        return res.status(HttpStatus.NO_CONTENT).send();
     }
 
     @Delete(':id/groups/:groupId')
+    @Memberships('delete', usernameOf)
+    @RequirePermission('users:admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
     async unassignGroup(
         @Param('id') id: string,
         @Param('groupId') groupId: string,
-        @Res() res: any,
     ) {
-        const user = users.getById(id);
-        if (!user)
-            return res
-                .status(HttpStatus.NOT_FOUND)
-                .json({error: 'User not found'});
+        const user = await users.get(id);
         await userGroups.removeForUser(user.username, groupId);
-        return res.status(HttpStatus.NO_CONTENT).send();
     }
 }
 
+
+@Resource('user-groups')
 @Controller('api/user-groups')
 class UserGroupsController {
     @Get(':username')
     async list(@Param('username') username: string) {
         return await userGroups.list(username);
     }
+    // Assigning a group grants its permissions, hence admin
     @Post(':username')
+    @Memberships('create', async (req) => req.params.username)
+    @RequirePermission('user-groups:admin')
     async create(
         @Param('username') username: string,
-        @Body() body: any,
-        @Res() res: any,
+        @Body() body: AssignUserGroupDto,
     ) {
         // ensure group exists (create-and-assign)
-        let grp = groups.findByName(body?.name);
+        let grp = await groups.findByName(body.name);
         if (!grp) {
-            grp = groups.create({
-                name: body?.name,
-                description: body?.description,
+            grp = await groups.create({
+                name: body.name,
+                description: body.description,
             });
         }
         const record = await userGroups.create(username, {
             id: grp.id,
             name: grp.name,
             description: grp.description,
-            enterprise: body?.enterprise,
+            enterprise: body.enterprise,
         });
-        const resp = {
+        return {
             id: record.id,
             name: record.name,
             description: record.description,
         };
-        return res.status(HttpStatus.CREATED).json(resp);
     }
     @Delete(':username/:id')
-    async remove(@Param('id') id: string, @Res() res: any) {
-        await userGroups.remove(id);
-        return res.status(HttpStatus.NO_CONTENT).send();
+    @Memberships('delete', async (req) => req.params.username)
+    @RequirePermission('user-groups:admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(
+        @Param('username') username: string,
+        @Param('id') id: string,
+    ) {
+        await userGroups.removeForUser(username, id);
     }
 }
 
+@Resource('groups')
 @Controller('api/groups')
 class GroupsController {
     @Get()
-    async list(@Query('search') search?: string) {
-        return groups.list(search);
+    async list(
+        @Query() query: Record<string, unknown>,
+        @Query('search') search?: string,
+    ) {
+        const page = parseListQuery(query);
+        return page ? await groups.page(page) : await groups.list(search);
+    }
+
+    @Get(':id')
+    async get(@Param('id') id: string) {
+        return await groups.get(id);
     }
 
     @Post()
-    async create(@Body() body: any, @Res() res: any) {
-        const created = groups.create({
-            name: body?.name,
-            description: body?.description,
+    @Audited('groups', 'create', createdId)
+    @RequirePermission('groups:admin')
+    async create(@Body() body: CreateGroupDto) {
+        return await groups.create(body);
+    }
+
+    @Put(':id')
+    @Audited('groups', 'update', param('id'))
+    @RequirePermission('groups:admin')
+    async update(
+        @Param('id') id: string,
+        @Body() body: UpdateGroupDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        return await groups.update(id, body, precondition);
+    }
+
+    // Dependents a delete would remove, or that would block it
+    @Get(':id/delete-impact')
+    async deleteImpact(@Param('id') id: string) {
+        return await integrity.impact('group', id);
+    }
+
+    @Delete(':id')
+    @Audited('groups', 'delete', param('id'))
+    @RequirePermission('groups:admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id') id: string) {
+        // Memberships and grants go only together with the group
+        await repositories.transaction(async () => {
+            await integrity.release('group', id);
+            await groups.remove(id);
+        });
+    }
+}
+
+@Resource('audit')
+@Controller('api/audit')
+class AuditController {
+    // Newest first; from/to are ISO timestamps, limit defaults to 100
+    @Get()
+    async search(
+        @Query('entity') entity: string,
+        @Query('entityId') entityId: string,
+        @Query('actor') actor: string,
+        @Query('from') from: string,
+        @Query('to') to: string,
+        @Query('limit') limit: string,
+    ) {
+        const range = {
+            from: from ? new Date(from) : undefined,
+            to: to ? new Date(to) : undefined,
+        };
+        if (Object.values(range).some((d) => d && isNaN(d.getTime())))
+            throw new ValidationError('from and to must be ISO dates');
+        const max = limit ? Number(limit) : undefined;
+        if (max !== undefined && !(Number.isInteger(max) && max > 0))
+            throw new ValidationError('limit must be a positive integer');
+        return await audit.search({
+            entity,
+            entityId,
+            actor,
+            ...range,
+            limit: max,
         });
-        return res.status(HttpStatus.CREATED).json(created);
     }
 }
 
+// One search box over the catalogue, users and templates. Hits of types the
+// caller may not read are left out rather than refused.
+@Authenticated()
+@Controller('api/search')
+class SearchController {
+    @Get()
+    async search(
+        @Query('q') q: string,
+        @Query('types') types: string,
+        @Query('limit') limit: string,
+        @Req() req: any,
+    ) {
+        if (typeof q !== 'string' || q.trim() === '')
+            throw new ValidationError('q is required');
+        const max = limit ? Number(limit) : 20;
+        if (!(Number.isInteger(max) && max > 0 && max <= 100))
+            throw new ValidationError('limit must be between 1 and 100');
+        const requested = types ? String(types).split(',') : undefined;
+        const unknown = (requested || []).filter(
+            (t) => !SEARCH_SOURCES.some((s) => s.type === t),
+        );
+        if (unknown.length > 0)
+            throw new ValidationError(`unknown types: ${unknown.join(', ')}`);
+        const grants = await permissions.grantsFor(req.user.username);
+        const readable = SEARCH_SOURCES.filter(
+            (s) =>
+                (!requested || requested.includes(s.type)) &&
+                hasPermission(grants, `${s.resource}:read`),
+        ).map((s) => s.type);
+        return {
+            q,
+            hits: await search.search(q, {types: readable, limit: max}),
+        };
+    }
+}
+
+// What the signed-in user may do, so the UI can hide unavailable actions
+@Authenticated()
+@Controller('api/me')
+class MeController {
+    @Get('permissions')
+    async getPermissions(@Req() req: any) {
+        return await permissions.summarize(req.user.username);
+    }
+}
+
+@Authenticated()
 @Controller('api/ai')
 class AiController {
     @Get('insights')
@@ -484,6 +1234,7 @@ class AiController {
 
 // removed products/services catalog and geo endpoints to original
 
+@Authenticated()
 @Controller('api/geo')
 class GeoController {
     @Get('countries')
@@ -504,38 +1255,72 @@ class GeoController {
     }
 }
 
+@Resource('templates')
 @Controller('api/templates')
 class TemplatesController {
     @Get()
-    async list() {
-        return await templates.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await templates.page(page)
+            : await templates.list(parseReadOptions(query));
+    }
+
+    @Get(':id')
+    async get(
+        @Param('id') id: string,
+        @Query() query: Record<string, unknown>,
+    ) {
+        return await templates.get(id, parseReadOptions(query));
     }
 
     @Post()
-    async create(@Body() body: any) {
+    @Audited('templates', 'create', createdId)
+    async create(@Body() body: CreateTemplateDto) {
         return await templates.create(body);
     }
 
     @Put(':id')
-    async update(@Param('id') id: string, @Body() body: any) {
-        const updated = await templates.update(id, body);
-        if (!updated) return {error: 'Not found'};
-        return updated;
+    @Audited('templates', 'update', param('id'))
+    async update(
+        @Param('id') id: string,
+        @Body() body: TemplateDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        return await templates.update(id, body, precondition);
+    }
+
+    // Dependents a delete would remove, or that would block it
+    @Get(':id/delete-impact')
+    async deleteImpact(@Param('id') id: string) {
+        return await integrity.impact('template', id);
     }
 
     @Delete(':id')
-    async remove(@Param('id') id: string) {
-        await templates.remove(id);
-        return {};
+    @Audited('templates', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id') id: string, @Req() req: any) {
+        await integrity.check('template', id);
+        await templates.remove(id, req.user.username);
+    }
+
+    @Post(':id/restore')
+    @Audited('templates', 'restore', param('id'))
+    @HttpCode(HttpStatus.OK)
+    async restore(@Param('id') id: string) {
+        return await templates.restore(id);
     }
 }
 
+@Resource('pipeline-yaml')
 @Controller('api/pipeline-yaml')
 class PipelineYamlController {
     @Get(':templateId')
     async get(@Param('templateId') templateId: string) {
-        const yaml = await pipelineYaml.get(templateId);
-        return yaml ? {templateId, yaml} : {templateId, yaml: null};
+        const record = await pipelineYaml.getRecord(templateId);
+        return record
+            ? {templateId, yaml: record.yaml || null, version: record.version}
+            : {templateId, yaml: null};
     }
 
     @Get()
@@ -544,133 +1329,356 @@ class PipelineYamlController {
     }
 
     @Post(':templateId')
-    async save(@Param('templateId') templateId: string, @Body() body: any) {
-        await pipelineYaml.save(templateId, body?.yaml || '');
+    @Audited('pipeline-yaml', 'update', param('templateId'))
+    async save(
+        @Param('templateId') templateId: string,
+        @Body() body: PipelineYamlDto,
+        @IfMatch() precondition: WriteOptions,
+        @Res({passthrough: true}) res: any,
+    ) {
+        const saved = await pipelineYaml.save(
+            templateId,
+            body.yaml,
+            precondition,
+        );
+        res.setHeader('ETag', etagOf(saved.version!));
         return {ok: true};
     }
 
     @Delete(':templateId')
+    @Audited('pipeline-yaml', 'delete', param('templateId'))
+    @HttpCode(HttpStatus.NO_CONTENT)
     async remove(@Param('templateId') templateId: string) {
         await pipelineYaml.remove(templateId);
-        return {};
     }
 }
 
+@Resource('pipeline-config')
 @Controller('api/pipeline-config')
 class PipelineConfigController {
+    // The ETag is set here: a `version` key inside the config is just data
     @Get()
-    async get() {
-        return await pipelineConfig.get();
+    async get(@Res({passthrough: true}) res: any) {
+        const {config, version} = await pipelineConfig.getVersioned();
+        if (version !== null) res.setHeader('ETag', etagOf(version));
+        return config;
     }
 
     @Post()
-    async save(@Body() body: any) {
-        return await pipelineConfig.save(body || {});
+    @Audited('pipeline-config', 'update', () => 'singleton')
+    @RequirePermission('pipeline-config:admin')
+    async save(
+        @Body() body: any,
+        @IfMatch() precondition: WriteOptions,
+        @Res({passthrough: true}) res: any,
+    ) {
+        const config = body || {};
+        res.setHeader(
+            'ETag',
+            etagOf(await pipelineConfig.save(config, precondition)),
+        );
+        return config;
     }
 }
 
+@Resource('enterprise-products-services')
 @Controller('api/enterprise-products-services')
 class EnterpriseProductsServicesController {
     @Get()
-    async list() {
-        return await enterpriseProductsServices.list();
+    async list(@Query() query: Record<string, unknown>) {
+        const page = parseListQuery(query);
+        return page
+            ? await enterpriseProductsServices.page(page)
+            : await enterpriseProductsServices.list();
+    }
+
+    // ?format=json|csv; the columns imports take, plus id
+    @Get('export')
+    async exportAll(
+        @Query('format') format: unknown,
+        @Res({passthrough: true}) res: any,
+    ) {
+        const as = parseExportFormat(format);
+        const table = await bulk.export('enterprise-products-services');
+        return sendExport(res, 'enterprise-products-services', as, table);
+    }
+
+    // Adds the missing linkages of a JSON array or text/csv body, whose
+    // rows give ids or names; ?dryRun=true only previews
+    @Post('import')
+    @Imported(
+        'enterprise-products-services',
+        () => enterpriseProductsServices.list(),
+    )
+    @HttpCode(HttpStatus.OK)
+    async importAll(@Body() body: unknown, @Query('dryRun') dryRun: unknown) {
+        return await bulk.import(
+            'enterprise-products-services',
+            importRecords(body),
+            parseDryRun(dryRun),
+        );
     }
 
     @Get(':id')
-    async get(@Param('id') id: string) {
-        return await enterpriseProductsServices.get(parseInt(id));
+    async get(@Param('id', ParseIntPipe) id: number) {
+        return await enterpriseProductsServices.get(id);
     }
 
     @Post()
-    async create(@Body() body: any) {
+    @Audited('enterprise-products-services', 'create', createdId)
+    async create(@Body() body: CreateEnterpriseProductServiceDto) {
         return await enterpriseProductsServices.create(body);
     }
 
     @Put(':id')
-    async update(@Param('id') id: string, @Body() body: any) {
-        return await enterpriseProductsServices.update(parseInt(id), body);
+    @Audited('enterprise-products-services', 'update', param('id'))
+    async update(
+        @Param('id', ParseIntPipe) id: number,
+        @Body() body: UpdateEnterpriseProductServiceDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        return await enterpriseProductsServices.update(
+            id,
+            body,
+            precondition,
+        );
     }
 
     @Delete(':id')
-    async remove(@Param('id') id: string) {
-        await enterpriseProductsServices.remove(parseInt(id));
-        return {};
+    @Audited('enterprise-products-services', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id', ParseIntPipe) id: number) {
+        await enterpriseProductsServices.remove(id);
     }
 
     // Get all linkages for a specific enterprise
     @Get('enterprise/:enterpriseId')
-    async getByEnterprise(@Param('enterpriseId') enterpriseId: string) {
-        return await enterpriseProductsServices.getByEnterprise(
-            parseInt(enterpriseId),
-        );
+    async getByEnterprise(
+        @Param('enterpriseId', ParseIntPipe) enterpriseId: number,
+    ) {
+        return await enterpriseProductsServices.getByEnterprise(enterpriseId);
     }
 
     // Get detailed information with names for a specific enterprise
     @Get('enterprise/:enterpriseId/detailed')
-    async getDetailedByEnterprise(@Param('enterpriseId') enterpriseId: string) {
+    async getDetailedByEnterprise(
+        @Param('enterpriseId', ParseIntPipe) enterpriseId: number,
+    ) {
         return await enterpriseProductsServices.getDetailedByEnterprise(
-            parseInt(enterpriseId),
+            enterpriseId,
+        );
+    }
+
+    // The enterprise's products with their services nested under them;
+    // ?by=service nests the products under the services instead
+    @Get('enterprise/:enterpriseId/tree')
+    async getTree(
+        @Param('enterpriseId', ParseIntPipe) enterpriseId: number,
+        @Query('by') by: unknown,
+    ) {
+        if (by !== undefined && by !== 'product' && by !== 'service')
+            throw new ValidationError('by must be product or service', {
+                param: 'by',
+            });
+        return await enterpriseProductsServices.getTree(enterpriseId, by);
+    }
+
+    // Enterprises using product X with service Y; either may be left out
+    @Get('reports/enterprises')
+    async findEnterprisesUsing(
+        @Query('productId') productId: unknown,
+        @Query('serviceId') serviceId: unknown,
+    ) {
+        if (productId === undefined && serviceId === undefined)
+            throw new ValidationError('give productId, serviceId or both');
+        const optional = (value: unknown, param: string) =>
+            value === undefined ? undefined : positiveInt(value, param);
+        return await enterpriseProductsServices.findEnterprisesUsing({
+            productId: optional(productId, 'productId'),
+            serviceId: optional(serviceId, 'serviceId'),
+        });
+    }
+
+    @Get('reports/products-without-services')
+    async getProductsWithoutServices() {
+        return await enterpriseProductsServices.getProductsWithoutServices();
+    }
+
+    @Get('reports/services-without-products')
+    async getServicesWithoutProducts() {
+        return await enterpriseProductsServices.getServicesWithoutProducts();
+    }
+
+    // Make the enterprise's linkages exactly the given product -> services
+    // mappings, returning what was added and removed
+    @Put('enterprise/:enterpriseId')
+    @Linkages('update', 'enterprise')
+    async replaceForEnterprise(
+        @Param('enterpriseId', ParseIntPipe) enterpriseId: number,
+        @Body() body: EnterpriseCatalogueDto,
+    ) {
+        return await enterpriseProductsServices.replaceForEnterprise(
+            enterpriseId,
+            body.products,
         );
     }
 
     // Get all linkages for a specific product
     @Get('product/:productId')
-    async getByProduct(@Param('productId') productId: string) {
-        return await enterpriseProductsServices.getByProduct(
-            parseInt(productId),
-        );
+    async getByProduct(@Param('productId', ParseIntPipe) productId: number) {
+        return await enterpriseProductsServices.getByProduct(productId);
     }
 
     // Get all linkages for a specific service
     @Get('service/:serviceId')
-    async getByService(@Param('serviceId') serviceId: string) {
-        return await enterpriseProductsServices.getByService(
-            parseInt(serviceId),
-        );
+    async getByService(@Param('serviceId', ParseIntPipe) serviceId: number) {
+        return await enterpriseProductsServices.getByService(serviceId);
     }
 
     // Remove all linkages for a specific enterprise
     @Delete('enterprise/:enterpriseId')
-    async removeByEnterprise(@Param('enterpriseId') enterpriseId: string) {
-        await enterpriseProductsServices.removeByEnterprise(
-            parseInt(enterpriseId),
-        );
-        return {};
+    @Linkages('delete', 'enterprise')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeByEnterprise(
+        @Param('enterpriseId', ParseIntPipe) enterpriseId: number,
+    ) {
+        await enterpriseProductsServices.removeByEnterprise(enterpriseId);
     }
 
     // Remove all linkages for a specific product
     @Delete('product/:productId')
-    async removeByProduct(@Param('productId') productId: string) {
-        await enterpriseProductsServices.removeByProduct(parseInt(productId));
-        return {};
+    @Linkages('delete', 'product')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeByProduct(@Param('productId', ParseIntPipe) productId: number) {
+        await enterpriseProductsServices.removeByProduct(productId);
     }
 
     // Remove all linkages for a specific service
     @Delete('service/:serviceId')
-    async removeByService(@Param('serviceId') serviceId: string) {
-        await enterpriseProductsServices.removeByService(parseInt(serviceId));
-        return {};
+    @Linkages('delete', 'service')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeByService(@Param('serviceId', ParseIntPipe) serviceId: number) {
+        await enterpriseProductsServices.removeByService(serviceId);
     }
 
     // Debug endpoint to check table contents
     @Get('debug/contents')
+    @RequirePermission('enterprise-products-services:admin')
     async debugContents() {
         return await enterpriseProductsServices.debugTableContents();
     }
 
     // Debug endpoint to check table structure
     @Get('debug/structure')
+    @RequirePermission('enterprise-products-services:admin')
     async debugStructure() {
         return await enterpriseProductsServices.checkTableStructure();
     }
 }
 
+@Resource('licenses')
+@Controller('api/licenses')
+class LicensesController {
+    @Get()
+    async list(@Query('accountId') accountId: unknown) {
+        return await licenses.list(
+            accountId === undefined
+                ? undefined
+                : positiveInt(accountId, 'accountId'),
+        );
+    }
+
+    // ACTIVE licenses ending within ?days= days (30 when absent)
+    @Get('reports/expiring')
+    async expiring(@Query('days') days: unknown) {
+        return await licenses.expiring(
+            days === undefined ? 30 : positiveInt(days, 'days'),
+        );
+    }
+
+    // Seats of the account's licenses in force and how many are taken
+    @Get('account/:accountId/usage')
+    async usage(@Param('accountId', ParseIntPipe) accountId: number) {
+        return await licenses.usage(accountId);
+    }
+
+    @Get(':id')
+    async get(@Param('id', ParseIntPipe) id: number) {
+        return await licenses.get(id);
+    }
+
+    @Post()
+    @Audited('licenses', 'create', createdId)
+    async create(@Body() body: LicenseDto) {
+        return await licenses.create(body);
+    }
+
+    @Put(':id')
+    @Audited('licenses', 'update', param('id'))
+    async update(
+        @Param('id', ParseIntPipe) id: number,
+        @Body() body: LicenseDto,
+        @IfMatch() precondition: WriteOptions,
+    ) {
+        return await licenses.update(id, body, precondition);
+    }
+
+    @Delete(':id')
+    @Audited('licenses', 'delete', param('id'))
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Param('id', ParseIntPipe) id: number) {
+        await licenses.remove(id);
+    }
+}
+
+@Resource('snapshots')
+@Controller('api/snapshots')
+class SnapshotsController {
+    // Everything the account/enterprise pair owns as one JSON bundle
+    @Get('account/:accountId/enterprise/:enterpriseId')
+    async export(
+        @Param('accountId', ParseIntPipe) accountId: number,
+        @Param('enterpriseId', ParseIntPipe) enterpriseId: number,
+    ) {
+        return await snapshots.export(accountId, enterpriseId);
+    }
+
+    // Restores a bundle from another instance; ?dryRun=true only reports
+    // what would be created, reused or conflict. ?accountId= and
+    // ?enterpriseId= restore into those existing records, and
+    // ?acknowledgeConflicts=true into a differing tenant found by name.
+    @Post('restore')
+    @Audit(restoredTenant)
+    @HttpCode(HttpStatus.OK)
+    async restore(
+        @Body() body: unknown,
+        @Query() query: Record<string, unknown>,
+        @Req() req: any,
+    ) {
+        return await snapshots.restore(body, {
+            dryRun: parseDryRun(query.dryRun),
+            ...restoreTarget(query),
+            acknowledgeConflicts: parseFlag(
+                query.acknowledgeConflicts,
+                'acknowledgeConflicts',
+            ),
+            // Like POST /users/:id/groups
+            assignGroups: hasPermission(
+                await permissions.grantsFor(req.user.username),
+                'users:admin',
+            ),
+        });
+    }
+}
+
 @Module({
     controllers: [
         HealthController,
+        AuthController,
         AccountsController,
         EnterprisesController,
         BusinessUnitsController,
+        GlobalSettingsController,
         UsersController,
         UserGroupsController,
         AiController,
@@ -680,7 +1688,12 @@ class EnterpriseProductsServicesController {
         ServicesController,
         ProductsController,
         GroupsController,
+        MeController,
+        SearchController,
+        AuditController,
         EnterpriseProductsServicesController,
+        SnapshotsController,
+        LicensesController,
     ],
 })
 class AppModule {}
@@ -689,14 +1702,9 @@ async function bootstrap() {
     try {
         console.log('Starting DevOps Automate Backend...');
         console.log('Environment:', process.env.NODE_ENV || 'development');
-        console.log('Storage Mode:', process.env.STORAGE_MODE || 'postgres');
-
-        // Force reload environment variables
-        dotenv.config();
-        const storageMode = process.env.STORAGE_MODE || 'postgres';
-        console.log('Reloaded Storage Mode:', storageMode);
+        console.log('Storage Mode:', STORAGE_MODE);
 
-        if (storageMode === 'postgres') {
+        if (STORAGE_MODE === 'postgres') {
             console.log('Testing PostgreSQL connection...');
             const dbConnected = await testConnection();
             if (!dbConnected) {
@@ -706,12 +1714,61 @@ async function bootstrap() {
                 process.exit(1);
             }
             console.log('PostgreSQL connection successful!');
+
+            if (process.env.MIGRATE_ON_START === 'true') {
+                console.log('Running pending migrations...');
+                const ran = await migrateUp();
+                console.log(
+                    ran.length > 0
+                        ? `Applied migrations: ${ran.join(', ')}`
+                        : 'Schema is up to date',
+                );
+            }
         }
 
-        const app = await NestFactory.create(AppModule, {cors: true});
+        const app = await NestFactory.create<NestExpressApplication>(
+            AppModule,
+            {cors: true},
+        );
+        // Only EtagInterceptor's version tags; Express's weak ones would
+        // be refused when sent back in If-Match
+        app.set('etag', false);
+        // CSV imports arrive as text, see importRecords
+        app.useBodyParser('text', {type: 'text/csv', limit: BODY_LIMIT});
+        app.useBodyParser('json', {limit: BODY_LIMIT});
+        // Every route needs a bearer token unless marked @Public(),
+        // and the permissions its route declares
+        const reflector = app.get(Reflector);
+        app.use(requestId);
+        app.useGlobalPipes(createValidationPipe());
+        app.useGlobalFilters(new ErrorEnvelopeFilter());
+        app.useGlobalGuards(
+            new JwtAuthGuard(reflector, auth),
+            new PermissionsGuard(reflector, permissions),
+        );
+        app.useGlobalInterceptors(
+            new AuditInterceptor(reflector, audit),
+            new EtagInterceptor(),
+        );
         const PORT = Number(process.env.PORT || 4000);
         await app.listen(PORT);
 
+        // Lift timed lockouts even for users who do not try to log in again
+        setInterval(() => {
+            lockout
+                .releaseExpired()
+                .catch((error) => console.error('Lock release failed:', error));
+        }, 60 * 1000).unref();
+
+        // Hard-delete soft-deleted records once their retention has passed
+        if (SOFT_DELETE.purgeInterval > 0) {
+            setInterval(() => {
+                purge
+                    .purge()
+                    .catch((error) => console.error('Purge failed:', error));
+            }, SOFT_DELETE.purgeInterval * 1000).unref();
+        }
+
         console.log(`🚀 DevOps Automate Backend is running on port ${PORT}`);
         console.log(`📊 Health check: http://localhost:${PORT}/health`);
         console.log(`🔧 API endpoints: http://localhost:${PORT}/api`);
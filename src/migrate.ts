@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import {withPg} from './db';
+
+dotenv.config();
+
+// Resolves from both src/ (ts-node-dev) and dist/ (compiled)
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+export interface Migration {
+    version: string;
+    name: string;
+    upFile: string;
+    downFile?: string;
+}
+
+export interface MigrationStatus {
+    version: string;
+    name: string;
+    applied: boolean;
+    appliedAt?: string;
+    // Applied file has been edited since it ran
+    changed?: boolean;
+}
+
+function schemas() {
+    return {
+        systiva: process.env.PGSCHEMA || 'systiva',
+        devops: process.env.PGSCHEMA || 'devops',
+    };
+}
+
+function trackingTable(): string {
+    return `${schemas().systiva}.schema_migrations`;
+}
+
+function render(sql: string): string {
+    const vars = schemas();
+    return sql.replace(/\{\{(\w+)\}\}/g, (m, key: keyof typeof vars) =>
+        key in vars ? vars[key] : m,
+    );
+}
+
+function checksum(file: string): string {
+    return crypto
+        .createHash('md5')
+        .update(fs.readFileSync(file, 'utf-8'))
+        .digest('hex');
+}
+
+// Files are named <version>_<name>.up.sql / <version>_<name>.down.sql
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+    const byVersion = new Map<string, Migration>();
+    for (const file of fs.readdirSync(dir).sort()) {
+        const m = /^(\d+)_(.+)\.(up|down)\.sql$/.exec(file);
+        if (!m) continue;
+        const [, version, name, direction] = m;
+        const entry = byVersion.get(version) || {version, name, upFile: ''};
+        if (direction === 'up') entry.upFile = path.join(dir, file);
+        else entry.downFile = path.join(dir, file);
+        byVersion.set(version, entry);
+    }
+    const migrations = Array.from(byVersion.values());
+    for (const m of migrations) {
+        if (!m.upFile) throw new Error(`Migration ${m.version} has no up file`);
+    }
+    return migrations.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+async function ensureTrackingTable(c: any): Promise<void> {
+    await c.query(`create schema if not exists ${schemas().systiva}`);
+    await c.query(
+        `create table if not exists ${trackingTable()} (
+            version text primary key,
+            name text not null,
+            checksum text not null,
+            applied_at timestamptz not null default now()
+        )`,
+    );
+}
+
+async function appliedRows(c: any): Promise<Map<string, any>> {
+    await ensureTrackingTable(c);
+    const res = await c.query(
+        `select version, checksum, applied_at from ${trackingTable()}`,
+    );
+    return new Map(res.rows.map((r: any) => [r.version, r]));
+}
+
+async function inTransaction(c: any, fn: () => Promise<void>): Promise<void> {
+    await c.query('begin');
+    try {
+        await fn();
+        await c.query('commit');
+    } catch (error) {
+        await c.query('rollback');
+        throw error;
+    }
+}
+
+// Applies pending migrations in order, each in its own transaction
+export async function migrateUp(target?: string): Promise<string[]> {
+    const migrations = loadMigrations();
+    return withPg(async (c) => {
+        const applied = await appliedRows(c);
+        const ran: string[] = [];
+        for (const m of migrations) {
+            if (target && m.version > target) break;
+            if (applied.has(m.version)) continue;
+            console.log(`Applying migration ${m.version}_${m.name}`);
+            await inTransaction(c, async () => {
+                await c.query(render(fs.readFileSync(m.upFile, 'utf-8')));
+                await c.query(
+                    `insert into ${trackingTable()}(version, name, checksum) values($1, $2, $3)`,
+                    [m.version, m.name, checksum(m.upFile)],
+                );
+            });
+            ran.push(m.version);
+        }
+        return ran;
+    });
+}
+
+// Reverts the most recently applied migrations, newest first
+export async function migrateDown(steps = 1): Promise<string[]> {
+    const migrations = loadMigrations();
+    return withPg(async (c) => {
+        const applied = await appliedRows(c);
+        const toRevert = migrations
+            .filter((m) => applied.has(m.version))
+            .reverse()
+            .slice(0, steps);
+        const reverted: string[] = [];
+        for (const m of toRevert) {
+            if (!m.downFile) {
+                throw new Error(
+                    `Migration ${m.version}_${m.name} has no down file`,
+                );
+            }
+            const downFile = m.downFile;
+            console.log(`Reverting migration ${m.version}_${m.name}`);
+            await inTransaction(c, async () => {
+                await c.query(render(fs.readFileSync(downFile, 'utf-8')));
+                await c.query(
+                    `delete from ${trackingTable()} where version = $1`,
+                    [m.version],
+                );
+            });
+            reverted.push(m.version);
+        }
+        return reverted;
+    });
+}
+
+export async function migrationStatus(): Promise<MigrationStatus[]> {
+    const migrations = loadMigrations();
+    return withPg(async (c) => {
+        const applied = await appliedRows(c);
+        return migrations.map((m) => {
+            const row = applied.get(m.version);
+            if (!row) return {version: m.version, name: m.name, applied: false};
+            return {
+                version: m.version,
+                name: m.name,
+                applied: true,
+                appliedAt: new Date(row.applied_at).toISOString(),
+                changed: row.checksum !== checksum(m.upFile),
+            };
+        });
+    });
+}
+
+async function main(argv: string[]) {
+    const [command = 'status', arg] = argv;
+    if (command === 'up') {
+        const ran = await migrateUp(arg);
+        console.log(
+            ran.length > 0 ? `Applied ${ran.join(', ')}` : 'Already up to date',
+        );
+    } else if (command === 'down') {
+        const reverted = await migrateDown(arg ? Number(arg) : 1);
+        console.log(
+            reverted.length > 0
+                ? `Reverted ${reverted.join(', ')}`
+                : 'Nothing to revert',
+        );
+    } else if (command === 'status') {
+        for (const s of await migrationStatus()) {
+            const state = s.applied
+                ? `applied ${s.appliedAt}${s.changed ? ' (file changed)' : ''}`
+                : 'pending';
+            console.log(`${s.version}_${s.name}\t${state}`);
+        }
+    } else {
+        throw new Error(`Unknown command ${command}; use up, down or status`);
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2))
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error('Migration failed:', error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,353 @@
+import {v4 as uuid} from 'uuid';
+import {ConflictError} from '../errors';
+import {Change, nextNumericId} from '../services/fsStore';
+import {
+    EntityId,
+    EntityMapping,
+    NewEntity,
+    Page,
+    PageQuery,
+    Range,
+    ReadOptions,
+    Repository,
+    Rewritten,
+    RowChanges,
+    SortField,
+    Where,
+    WriteOptions,
+    checkPageQuery,
+    checkVersion,
+    columnOf,
+    getPath,
+    liveOnly,
+    pageOf,
+    rowKey,
+    sortOrder,
+} from './repository';
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+    if (expected === null || expected === undefined) return actual == null;
+    return actual != null && String(actual) === String(expected);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    if (a == null) return b == null ? 0 : 1;
+    if (b == null) return -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+}
+
+// Against a Date bound, values compare as points in time
+function boundValue(value: unknown, bound: unknown): unknown {
+    return bound instanceof Date
+        ? new Date(value as string | number | Date).getTime()
+        : value;
+}
+
+function within(value: unknown, {from, to}: Range): boolean {
+    if (value == null) return false;
+    const cmp = (bound: unknown) =>
+        compareValues(boundValue(value, bound), boundValue(bound, bound));
+    return (
+        (from === undefined || cmp(from) >= 0) &&
+        (to === undefined || cmp(to) <= 0)
+    );
+}
+
+function definedOnly<T extends object>(obj: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(obj).filter(([, v]) => v !== undefined),
+    ) as Partial<T>;
+}
+
+/**
+ * Shared implementation for repositories that keep the whole entity set as
+ * an array (the JSON files of filesystem mode, or plain memory in tests).
+ */
+export abstract class ArrayRepository<T extends {id: EntityId}>
+    implements Repository<T>
+{
+    constructor(protected readonly mapping: EntityMapping<T>) {}
+
+    protected abstract load(): T[];
+    // Persists inserts, updates and deletes of single rows
+    protected abstract write(changes: Change<T>[]): void;
+
+    // Runs a read-modify-write cycle without interleaving with other writers
+    protected exclusive<R>(fn: () => R): R {
+        return fn();
+    }
+
+    // Rows that may match `where`; indexed backends narrow them down
+    protected candidates(_where: Where): T[] {
+        return this.load();
+    }
+
+    async list(options?: ReadOptions): Promise<T[]> {
+        const where = liveOnly(this.mapping, {}, options);
+        return this.sorted(
+            this.load().filter((r) => this.matches(r, where)),
+            this.mapping.orderBy || [],
+        );
+    }
+
+    async find(where: Where, options?: ReadOptions): Promise<T[]> {
+        const scoped = liveOnly(this.mapping, where, options);
+        return this.sorted(
+            this.candidates(scoped).filter((r) => this.matches(r, scoped)),
+            this.mapping.orderBy || [],
+        );
+    }
+
+    async page(query: PageQuery): Promise<Page<T>> {
+        checkPageQuery(this.mapping, query);
+        const filter = liveOnly(this.mapping, query.filter || {}, query);
+        const needle = query.q?.toLowerCase();
+        const rows = this.candidates(filter).filter(
+            (r) =>
+                this.matches(r, filter) &&
+                Object.entries(query.ranges || {}).every(([field, range]) =>
+                    within(getPath(r, field), range),
+                ) &&
+                (!needle || this.mentions(r, needle)),
+        );
+        const sorted = this.sorted(rows, sortOrder(this.mapping, query.sort));
+        return pageOf(
+            sorted.slice(query.offset, query.offset + query.limit),
+            rows.length,
+            query,
+        );
+    }
+
+    async findOne(where: Where, options?: ReadOptions): Promise<T | null> {
+        const scoped = liveOnly(this.mapping, where, options);
+        return (
+            this.candidates(scoped).find((r) => this.matches(r, scoped)) ||
+            null
+        );
+    }
+
+    async get(id: T['id'], options?: ReadOptions): Promise<T | null> {
+        return this.findOne({id}, options);
+    }
+
+    async create(body: NewEntity<T>): Promise<T> {
+        return this.exclusive(() => {
+            const record = this.inserted(body, []);
+            this.write([{after: record}]);
+            return record;
+        });
+    }
+
+    async update(
+        id: T['id'],
+        patch: Partial<Omit<T, 'id'>>,
+        options?: WriteOptions,
+    ): Promise<T | null> {
+        return this.exclusive(() => {
+            const current = this.live(id);
+            if (!current) return null;
+            checkVersion(this.mapping, current, options);
+            const updated = this.stamp(
+                {...current, ...definedOnly(patch), id: current.id},
+                current,
+            );
+            this.write([{before: current, after: updated}]);
+            return updated;
+        });
+    }
+
+    async replace(
+        id: T['id'],
+        body: Omit<T, 'id'>,
+        options?: WriteOptions,
+    ): Promise<T | null> {
+        return this.exclusive(() => {
+            const current = this.live(id);
+            if (!current) return null;
+            checkVersion(this.mapping, current, options);
+            const replaced = this.stamp(
+                {...definedOnly(body), id: current.id} as T,
+                current,
+            );
+            this.write([{before: current, after: replaced}]);
+            return replaced;
+        });
+    }
+
+    async remove(id: T['id']): Promise<boolean> {
+        return (await this.removeWhere({id})) > 0;
+    }
+
+    async removeWhere(where: Where): Promise<number> {
+        return this.exclusive(() => {
+            const matched = this.candidates(where).filter((r) =>
+                this.matches(r, where),
+            );
+            this.write(matched.map((row) => ({before: row})));
+            return matched.length;
+        });
+    }
+
+    async rewrite(
+        where: Where,
+        plan: (rows: T[]) => RowChanges<T>,
+    ): Promise<Rewritten<T>> {
+        return this.exclusive(() => {
+            const scoped = liveOnly(this.mapping, where);
+            const rows = this.candidates(scoped).filter((r) =>
+                this.matches(r, scoped),
+            );
+            const {remove, add} = plan(rows);
+            const gone = new Set(remove.map((r) => rowKey(this.mapping, r)));
+            const added: T[] = [];
+            for (const body of add)
+                added.push(this.inserted(body, added, gone));
+            // A single write, so the store never holds half of it
+            this.write([
+                ...remove.map((row) => ({before: row})),
+                ...added.map((row) => ({after: row})),
+            ]);
+            return {removed: remove, added};
+        });
+    }
+
+    async softRemove(id: T['id'], deletedBy: string | null): Promise<boolean> {
+        this.assertSoftDelete();
+        return this.exclusive(() => {
+            const current = this.live(id);
+            if (!current) return false;
+            this.write([
+                {
+                    before: current,
+                    after: {
+                        ...current,
+                        deletedAt: new Date().toISOString(),
+                        deletedBy,
+                    },
+                },
+            ]);
+            return true;
+        });
+    }
+
+    async restore(id: T['id']): Promise<T | null> {
+        this.assertSoftDelete();
+        return this.exclusive(() => {
+            const deleted = this.candidates({id}).find(
+                (r) => sameValue(r.id, id) && (r as any).deletedAt != null,
+            );
+            if (!deleted) return null;
+            const restored = {...deleted, deletedAt: null, deletedBy: null};
+            this.write([{before: deleted, after: restored}]);
+            return restored;
+        });
+    }
+
+    async describe(): Promise<Record<string, unknown>> {
+        return {
+            fields: ['id', ...Object.keys(this.mapping.fields)],
+            total: this.load().length,
+        };
+    }
+
+    private live(id: T['id']): T | undefined {
+        const where = liveOnly(this.mapping, {id});
+        return this.candidates(where).find((r) => this.matches(r, where));
+    }
+
+    private assertSoftDelete() {
+        if (!this.mapping.softDelete)
+            throw new Error(`${this.mapping.file} has no soft delete`);
+    }
+
+    private sorted(rows: T[], orderBy: SortField[]): T[] {
+        return rows.sort((a, b) => {
+            for (const {field, desc} of orderBy) {
+                const cmp = compareValues(getPath(a, field), getPath(b, field));
+                if (cmp !== 0) return desc ? -cmp : cmp;
+            }
+            return 0;
+        });
+    }
+
+    // `needle` is already lower-cased
+    private mentions(row: T, needle: string): boolean {
+        return (this.mapping.search || []).some((field) => {
+            const value = getPath(row, field);
+            return (
+                value != null && String(value).toLowerCase().includes(needle)
+            );
+        });
+    }
+
+    private matches(row: T, where: Where): boolean {
+        return Object.entries(where).every(([field, expected]) =>
+            sameValue(getPath(row, field), expected),
+        );
+    }
+
+    /**
+     * Builds a row to insert next to `pending` ones not written yet, while
+     * the rows keyed in `gone` are about to be deleted. Like a primary key
+     * violation in postgres, a key that is already taken is refused;
+     * soft-deleted rows still hold theirs.
+     */
+    private inserted(
+        body: NewEntity<T>,
+        pending: T[],
+        gone = new Set<string>(),
+    ): T {
+        const {id: requestedId, ...rest} = body;
+        const id =
+            requestedId !== undefined &&
+            requestedId !== null &&
+            requestedId !== ''
+                ? requestedId
+                : this.nextId(pending);
+        const record = this.stamp({id, ...rest} as T, undefined);
+        const key: Where = {};
+        for (const field of this.mapping.fileKey || ['id'])
+            key[field] = getPath(record, field);
+        const taken = [
+            ...this.candidates(key).filter(
+                (r) => !gone.has(rowKey(this.mapping, r)),
+            ),
+            ...pending,
+        ];
+        if (taken.some((r) => this.matches(r, key)))
+            throw new ConflictError('record already exists', {
+                file: this.mapping.file,
+                ...key,
+            });
+        return record;
+    }
+
+    private nextId(pending: T[]): EntityId {
+        if (this.mapping.idStrategy === 'uuid') return uuid();
+        return nextNumericId([...this.load(), ...pending] as {id: number}[]);
+    }
+
+    // Applies timestamp columns and the version; `current` is undefined for
+    // inserts
+    private stamp(record: T, current: T | undefined): T {
+        const now = new Date().toISOString();
+        const out: any = record;
+        for (const [field, def] of Object.entries(this.mapping.fields)) {
+            const {timestamp} = columnOf(def);
+            if (!timestamp) continue;
+            if (!current) {
+                if (out[field] == null) out[field] = now;
+            } else if (timestamp === 'update') {
+                out[field] = now;
+            } else {
+                out[field] = (current as any)[field];
+            }
+        }
+        if (this.mapping.versioned) {
+            if (current) out.version = ((current as any).version ?? 1) + 1;
+            else if (out.version == null) out.version = 1;
+        }
+        return out as T;
+    }
+}
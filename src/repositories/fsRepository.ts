@@ -0,0 +1,61 @@
+import {Change, FsStore} from '../services/fsStore';
+import {ArrayRepository} from './arrayRepository';
+import {EntityId, EntityMapping, Where, rowKey} from './repository';
+
+export class FsRepository<
+    T extends {id: EntityId},
+> extends ArrayRepository<T> {
+    private store: FsStore<T>;
+
+    constructor(dir: string, mapping: EntityMapping<T>) {
+        super(mapping);
+        this.store = new FsStore<T>(dir, mapping.file, {
+            upgrade: (raw) => this.upgrade(raw),
+            key: mapping.fileKey ? (row) => rowKey(mapping, row) : undefined,
+            indexes: mapping.indexes,
+        });
+    }
+
+    protected load(): T[] {
+        return this.store.readAll();
+    }
+
+    protected write(changes: Change<T>[]): void {
+        this.store.apply(changes);
+    }
+
+    // Other processes (or a second dev server) may share the directory
+    protected exclusive<R>(fn: () => R): R {
+        return this.store.withLock(fn);
+    }
+
+    // Uses the first condition on an indexed field
+    protected candidates(where: Where): T[] {
+        for (const [field, value] of Object.entries(where)) {
+            const rows = this.store.lookup(field, value);
+            if (rows) return rows;
+        }
+        return this.load();
+    }
+
+    async describe(): Promise<Record<string, unknown>> {
+        return {
+            storage: 'filesystem',
+            file: this.mapping.file,
+            ...this.store.stats(),
+            ...(await super.describe()),
+        };
+    }
+
+    private upgrade(raw: unknown): T[] {
+        const rows = this.mapping.fromFile
+            ? this.mapping.fromFile(raw)
+            : Array.isArray(raw)
+              ? (raw as T[])
+              : [];
+        // Files written before versioning count as version 1
+        return this.mapping.versioned
+            ? rows.map((r: any) => (r.version == null ? {...r, version: 1} : r))
+            : rows;
+    }
+}
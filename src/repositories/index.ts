@@ -0,0 +1,48 @@
+import {StorageMode, withTransaction} from '../db';
+import {FsRepository} from './fsRepository';
+import {MemoryRepository} from './memoryRepository';
+import {PgRepository} from './pgRepository';
+import {EntityId, EntityMapping, Repository} from './repository';
+
+export * from './repository';
+export {FsRepository} from './fsRepository';
+export {MemoryRepository} from './memoryRepository';
+export {PgRepository} from './pgRepository';
+
+export type RepositoryKind = StorageMode | 'memory';
+
+export interface RepositoryFactory {
+    readonly kind: RepositoryKind;
+    create<T extends {id: EntityId}>(mapping: EntityMapping<T>): Repository<T>;
+    // All-or-nothing in postgres; the array-backed stores just run `fn`
+    transaction<R>(fn: () => Promise<R>): Promise<R>;
+}
+
+/**
+ * Picks the storage backend once; every service asks this factory for its
+ * repositories. Repositories are cached per mapping so services that share
+ * an entity (e.g. for joins) also share its backing store.
+ */
+export function createRepositoryFactory(
+    kind: RepositoryKind,
+    dir: string,
+): RepositoryFactory {
+    const cache = new Map<EntityMapping<any>, Repository<any>>();
+    return {
+        kind,
+        create<T extends {id: EntityId}>(mapping: EntityMapping<T>) {
+            let repo = cache.get(mapping) as Repository<T> | undefined;
+            if (!repo) {
+                if (kind === 'postgres') repo = new PgRepository<T>(mapping);
+                else if (kind === 'memory')
+                    repo = new MemoryRepository<T>(mapping);
+                else repo = new FsRepository<T>(dir, mapping);
+                cache.set(mapping, repo);
+            }
+            return repo;
+        },
+        transaction<R>(fn: () => Promise<R>) {
+            return kind === 'postgres' ? withTransaction(fn) : fn();
+        },
+    };
+}
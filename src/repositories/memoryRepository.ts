@@ -0,0 +1,37 @@
+import {Change} from '../services/fsStore';
+import {ArrayRepository} from './arrayRepository';
+import {EntityId, EntityMapping, rowKey} from './repository';
+
+// Keeps entities in process memory; intended for tests
+export class MemoryRepository<
+    T extends {id: EntityId},
+> extends ArrayRepository<T> {
+    private rows: T[];
+
+    constructor(mapping: EntityMapping<T>, seed: T[] = []) {
+        super(mapping);
+        this.rows = seed.map((r) => ({...r}));
+    }
+
+    protected load(): T[] {
+        return this.rows.map((r) => ({...r}));
+    }
+
+    protected write(changes: Change<T>[]): void {
+        for (const {before, after} of changes) {
+            const key = rowKey(this.mapping, before || after);
+            const idx = this.rows.findIndex(
+                (r) => rowKey(this.mapping, r) === key,
+            );
+            if (after && idx === -1) this.rows.push({...after});
+            else if (after) this.rows[idx] = {...after};
+            // Deleting a row that isn't there does nothing; splice(-1)
+            // would drop the last one
+            else if (idx !== -1) this.rows.splice(idx, 1);
+        }
+    }
+
+    async describe(): Promise<Record<string, unknown>> {
+        return {storage: 'memory', ...(await super.describe())};
+    }
+}
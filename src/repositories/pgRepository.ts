@@ -0,0 +1,377 @@
+import {v4 as uuid} from 'uuid';
+import {withPg, withTransaction} from '../db';
+import {fromPgError} from '../errors';
+import {
+    ColumnMapping,
+    EntityId,
+    EntityMapping,
+    NewEntity,
+    Page,
+    PageQuery,
+    ReadOptions,
+    Repository,
+    Rewritten,
+    RowChanges,
+    Where,
+    WriteOptions,
+    checkPageQuery,
+    checkVersion,
+    columnOf,
+    getPath,
+    liveOnly,
+    pageOf,
+    setPath,
+    sortOrder,
+} from './repository';
+
+// Makes user text match literally inside an ilike pattern
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+export class PgRepository<T extends {id: EntityId}> implements Repository<T> {
+    constructor(private readonly mapping: EntityMapping<T>) {}
+
+    private get schema(): string {
+        return process.env.PGSCHEMA || this.mapping.schema;
+    }
+
+    private get table(): string {
+        return `${this.schema}.${this.mapping.table}`;
+    }
+
+    private get columns(): [string, ColumnMapping][] {
+        return Object.entries(this.mapping.fields).map(([field, def]) => [
+            field,
+            columnOf(def),
+        ]);
+    }
+
+    private selectList(): string {
+        const cols = [`${this.mapping.idColumn} as id`];
+        for (const [field, col] of this.columns) {
+            cols.push(`${col.select || col.column} as "${field}"`);
+        }
+        return cols.join(', ');
+    }
+
+    private orderSql(orderBy = this.mapping.orderBy || []): string {
+        const parts = orderBy.map(
+            ({field, desc}) =>
+                `${this.columnName(field)}${desc ? ' desc' : ''}`,
+        );
+        return parts.length > 0 ? `order by ${parts.join(', ')}` : '';
+    }
+
+    private columnName(field: string): string {
+        return field === 'id'
+            ? this.mapping.idColumn
+            : this.columnFor(field).column;
+    }
+
+    private columnFor(field: string): ColumnMapping {
+        const def = this.mapping.fields[field];
+        if (!def) {
+            throw new Error(`Unknown field ${field} for ${this.table}`);
+        }
+        return columnOf(def);
+    }
+
+    private bind(col: ColumnMapping, value: unknown): unknown {
+        if (value === undefined) return null;
+        return col.json && value !== null ? JSON.stringify(value) : value;
+    }
+
+    private conditions(where: Where, params: unknown[]): string[] {
+        return Object.entries(where).map(([field, value]) => {
+            const column = this.columnName(field);
+            if (value === null || value === undefined) {
+                return `${column} is null`;
+            }
+            params.push(value);
+            return `${column} = $${params.length}`;
+        });
+    }
+
+    private whereSql(where: Where, params: unknown[]): string {
+        const clauses = this.conditions(where, params);
+        return clauses.length > 0 ? `where ${clauses.join(' and ')}` : '';
+    }
+
+    private toEntity(row: any): T {
+        const out: any = {};
+        for (const [key, value] of Object.entries(row)) {
+            setPath(out, key, value);
+        }
+        return out as T;
+    }
+
+    // Constraint violations surface as typed errors (see fromPgError)
+    private async query(sql: string, params: unknown[] = []): Promise<any> {
+        try {
+            return await withPg(async (c) => c.query(sql, params));
+        } catch (error) {
+            throw fromPgError(error);
+        }
+    }
+
+    async list(options?: ReadOptions): Promise<T[]> {
+        return this.find({}, options);
+    }
+
+    async find(where: Where, options?: ReadOptions): Promise<T[]> {
+        const params: unknown[] = [];
+        const scoped = liveOnly(this.mapping, where, options);
+        const res = await this.query(
+            `select ${this.selectList()} from ${this.table} ${this.whereSql(scoped, params)} ${this.orderSql()}`,
+            params,
+        );
+        return res.rows.map((r: any) => this.toEntity(r));
+    }
+
+    async page(query: PageQuery): Promise<Page<T>> {
+        checkPageQuery(this.mapping, query);
+        const params: unknown[] = [];
+        const clauses = this.conditions(
+            liveOnly(this.mapping, query.filter || {}, query),
+            params,
+        );
+        if (query.q) {
+            params.push(`%${escapeLike(query.q)}%`);
+            const pattern = `$${params.length}`;
+            const matches = (this.mapping.search || []).map(
+                (field) => `${this.columnName(field)}::text ilike ${pattern}`,
+            );
+            clauses.push(`(${matches.join(' or ')})`);
+        }
+        for (const [field, {from, to}] of Object.entries(query.ranges || {})) {
+            const column = this.columnName(field);
+            if (from !== undefined) {
+                params.push(from);
+                clauses.push(`${column} >= $${params.length}`);
+            }
+            if (to !== undefined) {
+                params.push(to);
+                clauses.push(`${column} <= $${params.length}`);
+            }
+        }
+        const where =
+            clauses.length > 0 ? `where ${clauses.join(' and ')}` : '';
+        const count = await this.query(
+            `select count(*) as total from ${this.table} ${where}`,
+            params,
+        );
+        const res = await this.query(
+            `select ${this.selectList()} from ${this.table} ${where}
+             ${this.orderSql(sortOrder(this.mapping, query.sort))}
+             limit $${params.length + 1} offset $${params.length + 2}`,
+            [...params, query.limit, query.offset],
+        );
+        return pageOf(
+            res.rows.map((r: any) => this.toEntity(r)),
+            Number(count.rows[0].total),
+            query,
+        );
+    }
+
+    async findOne(where: Where, options?: ReadOptions): Promise<T | null> {
+        const params: unknown[] = [];
+        const scoped = liveOnly(this.mapping, where, options);
+        const res = await this.query(
+            `select ${this.selectList()} from ${this.table} ${this.whereSql(scoped, params)} limit 1`,
+            params,
+        );
+        return res.rows[0] ? this.toEntity(res.rows[0]) : null;
+    }
+
+    async get(id: T['id'], options?: ReadOptions): Promise<T | null> {
+        return this.findOne({id}, options);
+    }
+
+    async create(body: NewEntity<T>): Promise<T> {
+        const columns: string[] = [];
+        const values: string[] = [];
+        const params: unknown[] = [];
+        const hasId = body.id !== undefined && body.id !== null && body.id !== '';
+        if (hasId || this.mapping.idStrategy === 'uuid') {
+            // serial ids come from the sequence unless the caller pins one
+            params.push(hasId ? body.id : uuid());
+            columns.push(this.mapping.idColumn);
+            values.push(`$${params.length}`);
+        }
+        for (const [field, col] of this.columns) {
+            const value = getPath(body, field);
+            columns.push(col.column);
+            if (col.timestamp && value == null) {
+                values.push('now()');
+                continue;
+            }
+            if (this.isVersion(field) && value == null) {
+                values.push('1');
+                continue;
+            }
+            params.push(this.bind(col, value));
+            values.push(`$${params.length}`);
+        }
+        const res = await this.query(
+            `insert into ${this.table}(${columns.join(', ')})
+             values(${values.join(', ')})
+             returning ${this.selectList()}`,
+            params,
+        );
+        return this.toEntity(res.rows[0]);
+    }
+
+    async update(
+        id: T['id'],
+        patch: Partial<Omit<T, 'id'>>,
+        options?: WriteOptions,
+    ): Promise<T | null> {
+        return this.write(id, patch, false, options);
+    }
+
+    async replace(
+        id: T['id'],
+        body: Omit<T, 'id'>,
+        options?: WriteOptions,
+    ): Promise<T | null> {
+        return this.write(id, body, true, options);
+    }
+
+    private isVersion(field: string): boolean {
+        return !!this.mapping.versioned && field === 'version';
+    }
+
+    private async write(
+        id: T['id'],
+        body: any,
+        full: boolean,
+        options: WriteOptions = {},
+    ): Promise<T | null> {
+        const params: unknown[] = [id];
+        const sets: string[] = [];
+        for (const [field, col] of this.columns) {
+            if (this.isVersion(field)) {
+                sets.push(`${col.column} = ${col.column} + 1`);
+                continue;
+            }
+            if (col.timestamp === 'update') {
+                sets.push(`${col.column} = now()`);
+                continue;
+            }
+            if (col.timestamp === 'create') continue;
+            const value = getPath(body, field);
+            if (!full && value === undefined) continue;
+            params.push(this.bind(col, value));
+            sets.push(`${col.column} = $${params.length}`);
+        }
+        if (sets.length === 0) return this.get(id);
+        const conditions = [`${this.mapping.idColumn} = $1`];
+        if (this.mapping.softDelete)
+            conditions.push(`${this.columnName('deletedAt')} is null`);
+        if (options.expectedVersion !== undefined) {
+            params.push(options.expectedVersion);
+            conditions.push(
+                `${this.columnName('version')} = $${params.length}`,
+            );
+        }
+        const res = await this.query(
+            `update ${this.table} set ${sets.join(', ')}
+             where ${conditions.join(' and ')}
+             returning ${this.selectList()}`,
+            params,
+        );
+        if (res.rows[0]) return this.toEntity(res.rows[0]);
+        // Tell a stale version apart from a missing row
+        const current =
+            options.expectedVersion === undefined ? null : await this.get(id);
+        if (current) checkVersion(this.mapping, current, options);
+        return null;
+    }
+
+    async softRemove(id: T['id'], deletedBy: string | null): Promise<boolean> {
+        this.assertSoftDelete();
+        const res = await this.query(
+            `update ${this.table}
+             set ${this.columnName('deletedAt')} = now(),
+                 ${this.columnName('deletedBy')} = $2
+             where ${this.mapping.idColumn} = $1
+               and ${this.columnName('deletedAt')} is null`,
+            [id, deletedBy],
+        );
+        return (res.rowCount || 0) > 0;
+    }
+
+    async restore(id: T['id']): Promise<T | null> {
+        this.assertSoftDelete();
+        const res = await this.query(
+            `update ${this.table}
+             set ${this.columnName('deletedAt')} = null,
+                 ${this.columnName('deletedBy')} = null
+             where ${this.mapping.idColumn} = $1
+               and ${this.columnName('deletedAt')} is not null
+             returning ${this.selectList()}`,
+            [id],
+        );
+        return res.rows[0] ? this.toEntity(res.rows[0]) : null;
+    }
+
+    private assertSoftDelete() {
+        if (!this.mapping.softDelete)
+            throw new Error(`${this.table} has no soft delete`);
+    }
+
+    async remove(id: T['id']): Promise<boolean> {
+        return (await this.removeWhere({id})) > 0;
+    }
+
+    async removeWhere(where: Where): Promise<number> {
+        const params: unknown[] = [];
+        const res = await this.query(
+            `delete from ${this.table} ${this.whereSql(where, params)}`,
+            params,
+        );
+        return res.rowCount || 0;
+    }
+
+    // Row locks keep concurrent rewrites of the same rows apart
+    async rewrite(
+        where: Where,
+        plan: (rows: T[]) => RowChanges<T>,
+    ): Promise<Rewritten<T>> {
+        return withTransaction(async () => {
+            const params: unknown[] = [];
+            const res = await this.query(
+                `select ${this.selectList()} from ${this.table}
+                 ${this.whereSql(liveOnly(this.mapping, where), params)}
+                 ${this.orderSql()}
+                 for update`,
+                params,
+            );
+            const {remove, add} = plan(
+                res.rows.map((r: any) => this.toEntity(r)),
+            );
+            for (const row of remove) await this.remove(row.id);
+            const added: T[] = [];
+            for (const body of add) added.push(await this.create(body));
+            return {removed: remove, added};
+        });
+    }
+
+    async describe(): Promise<Record<string, unknown>> {
+        const res = await this.query(
+            `select column_name, data_type, is_nullable, column_default
+             from information_schema.columns
+             where table_schema = $1 and table_name = $2
+             order by ordinal_position`,
+            [this.schema, this.mapping.table],
+        );
+        return {
+            storage: 'postgres',
+            schema: this.schema,
+            table: this.mapping.table,
+            tableExists: res.rows.length > 0,
+            structure: res.rows,
+        };
+    }
+}
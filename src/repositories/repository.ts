@@ -0,0 +1,291 @@
+import {PreconditionFailedError, ValidationError} from '../errors';
+
+export type EntityId = string | number;
+
+export type IdStrategy = 'serial' | 'uuid';
+
+export interface ColumnMapping {
+    column: string;
+    // SQL expression used in select lists instead of the bare column
+    select?: string;
+    // Stored as json/jsonb, so the value is serialised before binding
+    json?: boolean;
+    // Filled with the current time on insert ('create') or on every write ('update')
+    timestamp?: 'create' | 'update';
+}
+
+export interface EntityMapping<T> {
+    // Postgres table and its default schema (PGSCHEMA overrides it)
+    table: string;
+    schema: string;
+    // JSON file used in filesystem mode
+    file: string;
+    idColumn: string;
+    idStrategy: IdStrategy;
+    // Entity field -> column; nested fields use dot paths (e.g. details.entity)
+    fields: Record<string, string | ColumnMapping>;
+    orderBy?: SortField[];
+    // Fields matched by the free-text `q` of a page query
+    search?: string[];
+    // Deletes only stamp deletedAt/deletedBy (both must be mapped fields);
+    // such rows are hidden from reads and writes unless includeDeleted
+    softDelete?: boolean;
+    // update/replace bump a `version` field (which must be mapped) and can
+    // be made conditional on it, see WriteOptions
+    versioned?: boolean;
+    // Filesystem mode: fields identifying a row when ids repeat (default id)
+    // and fields kept in a lookup index besides id
+    fileKey?: string[];
+    indexes?: string[];
+    // Upgrades file layouts written by earlier versions of the service
+    fromFile?: (raw: unknown) => T[];
+}
+
+// Equality filter on entity fields (dot paths allowed)
+export type Where = Record<string, unknown>;
+
+// Record fields of softDelete entities
+export interface SoftDeletable {
+    deletedAt?: string | null;
+    // Username of whoever deleted it
+    deletedBy?: string | null;
+}
+
+// Spread into the `fields` of a softDelete mapping
+export const SOFT_DELETE_FIELDS: Record<string, string> = {
+    deletedAt: 'deleted_at',
+    deletedBy: 'deleted_by',
+};
+
+// Record field of versioned entities; 1 for new rows
+export interface Versioned {
+    version?: number;
+}
+
+// Spread into the `fields` of a versioned mapping
+export const VERSION_FIELDS: Record<string, string> = {
+    version: 'version',
+};
+
+export interface WriteOptions {
+    // Optimistic concurrency: the write fails with a PreconditionFailedError
+    // unless the row is still at this version
+    expectedVersion?: number;
+}
+
+export interface ReadOptions {
+    // Also return soft-deleted rows
+    includeDeleted?: boolean;
+}
+
+export interface SortField {
+    field: string;
+    desc?: boolean;
+}
+
+// Inclusive bounds of a field; against a Date bound values compare as
+// points in time
+export interface Range {
+    from?: string | number | Date;
+    to?: string | number | Date;
+}
+
+export interface PageQuery {
+    offset: number;
+    limit: number;
+    // Defaults to the mapping's orderBy; ties are always broken by id
+    sort?: SortField[];
+    filter?: Where;
+    ranges?: Record<string, Range>;
+    // Case-insensitive substring match on any of the mapping's search fields
+    q?: string;
+    includeDeleted?: boolean;
+}
+
+export interface Page<T> {
+    items: T[];
+    // Rows matching the filter, ranges and q, across all pages
+    total: number;
+    page: number;
+    pageSize: number;
+    // Pass back as ?cursor= for the following page; null on the last page
+    nextCursor: string | null;
+}
+
+export type NewEntity<T extends {id: EntityId}> = Omit<T, 'id'> & {
+    id?: T['id'];
+};
+
+// What a rewrite() plan does with the rows it was given
+export interface RowChanges<T extends {id: EntityId}> {
+    remove: T[];
+    add: NewEntity<T>[];
+}
+
+export interface Rewritten<T> {
+    removed: T[];
+    added: T[];
+}
+
+export interface Repository<T extends {id: EntityId}> {
+    list(options?: ReadOptions): Promise<T[]>;
+    find(where: Where, options?: ReadOptions): Promise<T[]>;
+    page(query: PageQuery): Promise<Page<T>>;
+    findOne(where: Where, options?: ReadOptions): Promise<T | null>;
+    get(id: T['id'], options?: ReadOptions): Promise<T | null>;
+    create(body: NewEntity<T>): Promise<T>;
+    // Sets only the fields present in the patch
+    update(
+        id: T['id'],
+        patch: Partial<Omit<T, 'id'>>,
+        options?: WriteOptions,
+    ): Promise<T | null>;
+    // Overwrites every mapped field, clearing the ones missing from the body
+    replace(
+        id: T['id'],
+        body: Omit<T, 'id'>,
+        options?: WriteOptions,
+    ): Promise<T | null>;
+    // Hard delete, also of soft-deleted rows
+    remove(id: T['id']): Promise<boolean>;
+    removeWhere(where: Where): Promise<number>;
+    // Hands the live rows matching `where` to `plan` and applies the
+    // removals and inserts it returns as one write; nothing else writes the
+    // entity set in between
+    rewrite(
+        where: Where,
+        plan: (rows: T[]) => RowChanges<T>,
+    ): Promise<Rewritten<T>>;
+    // For softDelete mappings: hides a live row / brings a deleted one back
+    softRemove(id: T['id'], deletedBy: string | null): Promise<boolean>;
+    restore(id: T['id']): Promise<T | null>;
+    // Storage details for debug endpoints
+    describe(): Promise<Record<string, unknown>>;
+}
+
+export function columnOf(mapping: ColumnMapping | string): ColumnMapping {
+    return typeof mapping === 'string' ? {column: mapping} : mapping;
+}
+
+export function getPath(obj: any, path: string): any {
+    return path
+        .split('.')
+        .reduce((acc, key) => (acc == null ? undefined : acc[key]), obj);
+}
+
+export function setPath(obj: any, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let cur = obj;
+    for (const key of keys.slice(0, -1)) {
+        if (cur[key] == null || typeof cur[key] !== 'object') cur[key] = {};
+        cur = cur[key];
+    }
+    cur[keys[keys.length - 1]] = value;
+}
+
+// Identity of a row in the array-backed stores, see fileKey
+export function rowKey(mapping: EntityMapping<any>, row: any): string {
+    return (mapping.fileKey || ['id'])
+        .map((field) => String(getPath(row, field)))
+        .join('\u0000');
+}
+
+// Adds the "not deleted" condition for softDelete mappings
+export function liveOnly(
+    mapping: EntityMapping<any>,
+    where: Where,
+    options: ReadOptions = {},
+): Where {
+    return mapping.softDelete && !options.includeDeleted
+        ? {...where, deletedAt: null}
+        : where;
+}
+
+// Throws when `current` has moved past the version the caller last read
+export function checkVersion(
+    mapping: EntityMapping<any>,
+    current: {id: EntityId; version?: number},
+    options: WriteOptions = {},
+): void {
+    const {expectedVersion} = options;
+    if (expectedVersion === undefined) return;
+    if (!mapping.versioned)
+        throw new Error(`${mapping.table} has no versions`);
+    const version = current.version ?? 1;
+    if (version !== expectedVersion)
+        throw new PreconditionFailedError(
+            `${mapping.table} ${current.id} was changed by someone else`,
+            {id: current.id, expectedVersion, currentVersion: version},
+        );
+}
+
+/**
+ * Rejects sort and filter fields the mapping doesn't know (json columns
+ * can't be compared either) and `q` on entities without search fields.
+ */
+export function checkPageQuery(
+    mapping: EntityMapping<any>,
+    query: PageQuery,
+): void {
+    const comparable = (field: string) => {
+        if (field === 'id') return true;
+        const def = mapping.fields[field];
+        return def !== undefined && !columnOf(def).json;
+    };
+    for (const {field} of query.sort || []) {
+        if (!comparable(field))
+            throw new ValidationError(`cannot sort by ${field}`, {field});
+    }
+    const filtered = [
+        ...Object.keys(query.filter || {}),
+        ...Object.keys(query.ranges || {}),
+    ];
+    for (const field of filtered) {
+        if (!comparable(field))
+            throw new ValidationError(`cannot filter by ${field}`, {field});
+    }
+    if (query.q && !(mapping.search && mapping.search.length > 0))
+        throw new ValidationError('free-text search is not supported here');
+}
+
+// Requested order (or the mapping's default) with id as the last tiebreaker
+export function sortOrder(
+    mapping: EntityMapping<any>,
+    sort?: SortField[],
+): SortField[] {
+    const order = sort && sort.length > 0 ? sort : mapping.orderBy || [];
+    return order.some((s) => s.field === 'id')
+        ? order
+        : [...order, {field: 'id'}];
+}
+
+// Cursors are opaque to clients; today they carry the next offset
+export function encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({offset})).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number | null {
+    try {
+        const {offset} = JSON.parse(
+            Buffer.from(cursor, 'base64url').toString('utf-8'),
+        );
+        return Number.isInteger(offset) && offset >= 0 ? offset : null;
+    } catch {
+        return null;
+    }
+}
+
+export function pageOf<T>(
+    items: T[],
+    total: number,
+    query: PageQuery,
+): Page<T> {
+    const next = query.offset + query.limit;
+    return {
+        items,
+        total,
+        page: Math.floor(query.offset / query.limit) + 1,
+        pageSize: query.limit,
+        nextCursor: next < total ? encodeCursor(next) : null,
+    };
+}
@@ -0,0 +1,81 @@
+import {STORAGE_DIR} from '../config';
+import {getStorageMode} from '../db';
+import {createRepositoryFactory} from '../repositories';
+import {GroupsService} from '../services/groups';
+import {PasswordsService, meetsComplexity} from '../services/passwords';
+import {UserGroupsService} from '../services/userGroups';
+import {UsersService} from '../services/users';
+
+const ADMIN_GROUP = 'Administrators';
+
+// Creates (or re-activates) a user, sets its password and puts it in the
+// Administrators group, so a fresh install has someone who can log in
+// and manage everything else.
+// Usage: npm run user:bootstrap -- <username> <email> <password>
+async function main(argv: string[]) {
+    const [username, email, password] = argv;
+    if (!username || !email || !password) {
+        throw new Error('usage: user:bootstrap <username> <email> <password>');
+    }
+    if (!meetsComplexity(password)) {
+        throw new Error('password does not meet complexity requirements');
+    }
+    const repositories = createRepositoryFactory(getStorageMode(), STORAGE_DIR);
+    const users = new UsersService(repositories);
+    const passwords = new PasswordsService(repositories);
+    const groups = new GroupsService(repositories);
+    const userGroups = new UserGroupsService(repositories);
+
+    let user = await users.getByUsername(username);
+    if (user) {
+        user = (await users.partialUpdate(user.id, {
+            status: 'ACTIVE',
+            locked: false,
+        }))!;
+        console.log(`Re-activated existing user ${username}`);
+    } else {
+        user = await users.create({
+            username,
+            email,
+            firstName: username,
+            lastName: '',
+            status: 'ACTIVE',
+            startDate: new Date().toISOString().slice(0, 10),
+            endDate: null,
+            groupName: ADMIN_GROUP,
+        });
+        console.log(`Created user ${username}`);
+    }
+    const error = await passwords.set(user.id, password);
+    if (error) throw new Error(error);
+    console.log(`Password set for ${username} (${user.id})`);
+
+    let admins = await groups.findByName(ADMIN_GROUP);
+    if (!admins) {
+        admins = await groups.create({
+            name: ADMIN_GROUP,
+            description: 'Full access to every resource',
+            permissions: ['*:admin'],
+        });
+    } else if (!(admins.permissions || []).includes('*:admin')) {
+        admins = (await groups.update(admins.id, {
+            permissions: [...(admins.permissions || []), '*:admin'],
+        }))!;
+    }
+    const memberships = await userGroups.list(username);
+    if (!memberships.some((m) => m.id === admins!.id)) {
+        await userGroups.create(username, {
+            id: admins.id,
+            name: admins.name,
+            description: admins.description,
+        });
+    }
+    console.log(`${username} is a member of ${ADMIN_GROUP}`);
+}
+
+main(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Bootstrap failed:', error.message || error);
+        process.exit(1);
+    });
@@ -0,0 +1,54 @@
+import {STORAGE_DIR} from '../config';
+import {getStorageMode} from '../db';
+import {createRepositoryFactory} from '../repositories';
+import {DataMigrationService} from '../services/dataMigration';
+
+const DIRECTIONS = ['fs-to-pg', 'pg-to-fs'];
+
+// Copies users with their credentials and lock history, groups,
+// memberships, pipeline data and the audit log between STORAGE_DIR and the
+// PG* database. Needs STORAGE_MODE=postgres for the connection;
+// exits with 2 when some rows were left out because of conflicts.
+// Usage: npm run data:migrate -- <fs-to-pg|pg-to-fs> [--dry-run]
+async function main(argv: string[]): Promise<number> {
+    const direction = argv.find((a) => !a.startsWith('--'));
+    const dryRun = argv.includes('--dry-run');
+    if (!direction || !DIRECTIONS.includes(direction)) {
+        throw new Error('usage: data:migrate <fs-to-pg|pg-to-fs> [--dry-run]');
+    }
+    if (getStorageMode() !== 'postgres') {
+        throw new Error('set STORAGE_MODE=postgres and the PG* variables');
+    }
+    const fs = createRepositoryFactory('filesystem', STORAGE_DIR);
+    const pg = createRepositoryFactory('postgres', STORAGE_DIR);
+    const service =
+        direction === 'fs-to-pg'
+            ? new DataMigrationService(fs, pg)
+            : new DataMigrationService(pg, fs);
+    const reports = await service.migrate(dryRun);
+
+    let conflicts = 0;
+    for (const r of reports) {
+        console.log(
+            `${r.file} <-> ${r.table}: ${r.read} read, ` +
+                `${r.created} ${dryRun ? 'to create' : 'created'}, ` +
+                `${r.unchanged} unchanged, ${r.conflicts.length} conflict(s)`,
+        );
+        for (const c of r.conflicts) {
+            const key = Object.entries(c.key)
+                .map(([field, value]) => `${field}=${value}`)
+                .join(' ');
+            console.log(`  ${key}: ${c.reason} (${c.fields.join(', ')})`);
+        }
+        conflicts += r.conflicts.length;
+    }
+    if (dryRun) console.log('Dry run, nothing was written');
+    return conflicts;
+}
+
+main(process.argv.slice(2))
+    .then((conflicts) => process.exit(conflicts > 0 ? 2 : 0))
+    .catch((error) => {
+        console.error('Data migration failed:', error.message || error);
+        process.exit(1);
+    });
@@ -0,0 +1,27 @@
+import {STORAGE_DIR} from '../config';
+import {getStorageMode} from '../db';
+import {createRepositoryFactory} from '../repositories';
+import {GlobalSettingsService} from '../services/globalSettings';
+
+// Usage: npm run rekey:global-settings -- [--dry-run]
+async function main(argv: string[]) {
+    const dryRun = argv.includes('--dry-run');
+    const repositories = createRepositoryFactory(getStorageMode(), STORAGE_DIR);
+    const service = new GlobalSettingsService(repositories);
+    const changes = await service.rekeyLegacyIds(dryRun);
+    if (changes.length === 0) {
+        console.log('No padded global settings ids found');
+        return;
+    }
+    for (const {from, to} of changes) console.log(`${from} -> ${to}`);
+    console.log(
+        `${dryRun ? 'Would re-key' : 'Re-keyed'} ${changes.length} global settings record(s)`,
+    );
+}
+
+main(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Re-key failed:', error);
+        process.exit(1);
+    });
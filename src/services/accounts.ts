@@ -1,6 +1,19 @@
-import {withPg} from '../db';
+import {NotFoundError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    ReadOptions,
+    Repository,
+    RepositoryFactory,
+    SOFT_DELETE_FIELDS,
+    SoftDeletable,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface Account {
+export interface Account extends SoftDeletable, Versioned {
     id: number;
     accountName: string;
     clientId?: string;
@@ -12,97 +25,73 @@ export interface Account {
     licenseId?: string;
 }
 
+export const accountMapping: EntityMapping<Account> = {
+    table: 'fnd_accounts',
+    schema: 'systiva',
+    file: 'accounts.json',
+    idColumn: 'account_id',
+    idStrategy: 'serial',
+    fields: {
+        accountName: 'account_name',
+        clientId: 'client_id',
+        clientName: 'client_name',
+        contactName: 'contact_name',
+        contactTitle: 'contact_title',
+        contactEmail: 'contact_email',
+        contactPhone: 'contact_phone',
+        licenseId: 'license_id',
+        ...SOFT_DELETE_FIELDS,
+        ...VERSION_FIELDS,
+    },
+    orderBy: [{field: 'accountName'}],
+    search: ['accountName', 'clientName', 'contactName', 'contactEmail'],
+    softDelete: true,
+    versioned: true,
+};
+
 export class AccountsService {
-    private readonly schema: string;
+    private repo: Repository<Account>;
+
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(accountMapping);
+    }
 
-    constructor(dir: string) {
-        this.schema = process.env.PGSCHEMA || 'systiva'; // Use systiva schema for existing tables
+    async list(options?: ReadOptions): Promise<Account[]> {
+        return this.repo.list(options);
     }
 
-    async list(): Promise<Account[]> {
-        const result = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    account_id as id,
-                    account_name as "accountName",
-                    client_id as "clientId",
-                    client_name as "clientName",
-                    contact_name as "contactName",
-                    contact_title as "contactTitle",
-                    contact_email as "contactEmail",
-                    contact_phone as "contactPhone",
-                    license_id as "licenseId"
-                from ${this.schema}.fnd_accounts
-                order by account_name`,
-            );
-            return res.rows as Account[];
-        });
-        return result;
+    async page(query: PageQuery): Promise<Page<Account>> {
+        return this.repo.page(query);
     }
 
     async create(body: Omit<Account, 'id'>): Promise<Account> {
-        const created = await withPg(async (c) => {
-            const res = await c.query(
-                `insert into ${this.schema}.fnd_accounts(
-                    account_name, client_id, client_name, contact_name, contact_title, contact_email, contact_phone, license_id
-                ) values($1, $2, $3, $4, $5, $6, $7, $8)
-                returning account_id as id, account_name as "accountName", client_id as "clientId", client_name as "clientName", contact_name as "contactName", contact_title as "contactTitle", contact_email as "contactEmail", contact_phone as "contactPhone", license_id as "licenseId"`,
-                [body.accountName, body.clientId || null, body.clientName || null, body.contactName || null, body.contactTitle || null, body.contactEmail || null, body.contactPhone || null, body.licenseId || null],
-            );
-            return res.rows[0] as Account;
-        });
-        return created;
+        return this.repo.create(body);
     }
 
-    async update(id: number, body: Omit<Account, 'id'>): Promise<Account | undefined> {
-        const updated = await withPg(async (c) => {
-            const res = await c.query(
-                `update ${this.schema}.fnd_accounts set
-                    account_name = $2,
-                    client_id = $3,
-                    client_name = $4,
-                    contact_name = $5,
-                    contact_title = $6,
-                    contact_email = $7,
-                    contact_phone = $8,
-                    license_id = $9
-                where account_id = $1
-                returning account_id as id, account_name as "accountName", client_id as "clientId", client_name as "clientName", contact_name as "contactName", contact_title as "contactTitle", contact_email as "contactEmail", contact_phone as "contactPhone", license_id as "licenseId"`,
-                [id, body.accountName, body.clientId || null, body.clientName || null, body.contactName || null, body.contactTitle || null, body.contactEmail || null, body.contactPhone || null, body.licenseId || null],
-            );
-            return (res.rows[0] as Account) || undefined;
-        });
+    async update(
+        id: number,
+        body: Omit<Account, 'id'>,
+        options?: WriteOptions,
+    ): Promise<Account> {
+        const updated = await this.repo.replace(id, body, options);
+        if (!updated) throw new NotFoundError('account', id);
         return updated;
     }
 
-    async remove(id: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_accounts where account_id = $1`,
-                [id],
-            );
-        });
+    async remove(id: number, deletedBy: string | null = null): Promise<void> {
+        if (!(await this.repo.softRemove(id, deletedBy)))
+            throw new NotFoundError('account', id);
+    }
+
+    async restore(id: number): Promise<Account> {
+        const restored = await this.repo.restore(id);
+        if (!restored) throw new NotFoundError('deleted account', id);
+        return restored;
     }
 
-    async get(id: number): Promise<Account | null> {
-        const row = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    account_id as id,
-                    account_name as "accountName",
-                    client_id as "clientId",
-                    client_name as "clientName",
-                    contact_name as "contactName",
-                    contact_title as "contactTitle",
-                    contact_email as "contactEmail",
-                    contact_phone as "contactPhone",
-                    license_id as "licenseId"
-                from ${this.schema}.fnd_accounts
-                where account_id = $1`,
-                [id],
-            );
-            return res.rows[0] as Account || null;
-        });
-        return row;
+    async get(id: number, options?: ReadOptions): Promise<Account> {
+        const found = await this.repo.get(id, options);
+        if (!found) throw new NotFoundError('account', id);
+        return found;
     }
 }
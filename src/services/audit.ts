@@ -0,0 +1,97 @@
+import {EntityMapping, Repository, RepositoryFactory} from '../repositories';
+
+// import: written by a bulk import or snapshot restore
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'import';
+
+// Field-level difference between the entity before and after a request
+export type AuditChanges = Record<string, {before: unknown; after: unknown}>;
+
+export interface AuditRecord {
+    id: string;
+    requestId: string | null;
+    // Username from the access token
+    actor: string | null;
+    method: string;
+    path: string;
+    entity: string;
+    entityId: string | null;
+    action: AuditAction;
+    changes: AuditChanges;
+    createdAt?: string;
+}
+
+export interface AuditQuery {
+    entity?: string;
+    entityId?: string;
+    actor?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
+
+export const auditMapping: EntityMapping<AuditRecord> = {
+    table: 'audit_log',
+    schema: 'systiva',
+    file: 'auditLog.json',
+    idColumn: 'audit_id',
+    idStrategy: 'uuid',
+    fields: {
+        requestId: 'request_id',
+        actor: 'actor',
+        method: 'method',
+        path: 'path',
+        entity: 'entity',
+        entityId: 'entity_id',
+        action: 'action',
+        changes: {column: 'changes', json: true},
+        createdAt: {column: 'created_at', timestamp: 'create'},
+    },
+    orderBy: [{field: 'createdAt', desc: true}],
+};
+
+function plain(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object'
+        ? (value as Record<string, unknown>)
+        : {};
+}
+
+// Top-level fields whose value differs; nested objects compare as JSON
+export function diffEntities(before: unknown, after: unknown): AuditChanges {
+    const a = plain(before);
+    const b = plain(after);
+    const changes: AuditChanges = {};
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        if (JSON.stringify(a[key]) === JSON.stringify(b[key])) continue;
+        changes[key] = {before: a[key] ?? null, after: b[key] ?? null};
+    }
+    return changes;
+}
+
+// Entries are only ever added; there is deliberately no update or remove.
+export class AuditService {
+    private repo: Repository<AuditRecord>;
+
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(auditMapping);
+    }
+
+    async record(entry: Omit<AuditRecord, 'id' | 'createdAt'>) {
+        return this.repo.create(entry);
+    }
+
+    // Newest first; the range, order and limit go into the query
+    async search(query: AuditQuery = {}): Promise<AuditRecord[]> {
+        const filter: Record<string, string> = {};
+        if (query.entity) filter.entity = query.entity;
+        if (query.entityId) filter.entityId = query.entityId;
+        if (query.actor) filter.actor = query.actor;
+        const {items} = await this.repo.page({
+            offset: 0,
+            limit: query.limit ?? 100,
+            filter,
+            ranges: {createdAt: {from: query.from, to: query.to}},
+            sort: [{field: 'createdAt', desc: true}],
+        });
+        return items;
+    }
+}
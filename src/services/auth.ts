@@ -0,0 +1,171 @@
+import {HttpStatus} from '@nestjs/common';
+import {AUTH} from '../config';
+import {JwtClaims, signJwt, verifyJwt} from '../auth/jwt';
+import {LockoutService} from './lockout';
+import {PasswordsService} from './passwords';
+import {UserRecord, UsersService} from './users';
+
+export interface AuthTokens {
+    tokenType: 'Bearer';
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+    user: {id: string; username: string; email: string};
+}
+
+export interface AccessClaims extends JwtClaims {
+    typ: 'access';
+    username: string;
+}
+
+export type AuthResult =
+    | {tokens: AuthTokens}
+    | {error: string; status: HttpStatus; passwordChangeRequired?: boolean};
+
+// Date-only end dates ("2025-12-31") still grant access for that whole day
+function endOfDay(value: string): Date {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(`${value}T23:59:59.999Z`)
+        : new Date(value);
+}
+
+// Why the user may not sign in right now, or null when they may
+export function userAccessProblem(
+    user: UserRecord,
+    now = new Date(),
+): string | null {
+    if (user.status === 'INACTIVE') return 'user is inactive';
+    if (user.locked) return 'user is locked';
+    if (user.startDate && new Date(user.startDate) > now)
+        return 'user access has not started';
+    if (user.endDate && endOfDay(user.endDate) < now)
+        return 'user access has ended';
+    return null;
+}
+
+export class AuthService {
+    constructor(
+        private readonly users: UsersService,
+        private readonly passwords: PasswordsService,
+        private readonly lockout: LockoutService,
+    ) {}
+
+    // Finds the user by username or email, lifting an expired lock first
+    private async findUser(identifier: string): Promise<UserRecord | null> {
+        if (!identifier) return null;
+        const user =
+            (await this.users.getByUsername(identifier)) ||
+            (await this.users.getByEmail(identifier));
+        return user ? this.lockout.releaseIfExpired(user) : null;
+    }
+
+    // Checks the password, counting failures towards a lockout
+    private async checkPassword(
+        user: UserRecord,
+        password: string,
+    ): Promise<boolean> {
+        if (!(await this.passwords.verify(user.id, password || ''))) {
+            await this.lockout.registerFailure(user);
+            return false;
+        }
+        await this.lockout.registerSuccess(user);
+        return true;
+    }
+
+    async login(identifier: string, password: string): Promise<AuthResult> {
+        const invalid = {
+            error: 'invalid credentials',
+            status: HttpStatus.UNAUTHORIZED,
+        };
+        if (!identifier || !password) return invalid;
+        const user = await this.findUser(identifier);
+        if (!user) return invalid;
+        // Before the password, so a locked user gets the same answer
+        // whether or not the guess was right
+        const problem = userAccessProblem(user);
+        if (problem) return {error: problem, status: HttpStatus.FORBIDDEN};
+        if (!(await this.checkPassword(user, password))) return invalid;
+        if (await this.passwords.mustChange(user.id)) {
+            return {
+                error: 'password change required',
+                status: HttpStatus.FORBIDDEN,
+                passwordChangeRequired: true,
+            };
+        }
+        return {tokens: this.issue(user)};
+    }
+
+    /**
+     * Changes a password given the current one. Needs no token, so users
+     * whose password was reset by an admin can complete the forced change.
+     */
+    async changePassword(
+        identifier: string,
+        currentPassword: string,
+        newPassword: string,
+    ): Promise<{ok: true} | {error: string; status: HttpStatus}> {
+        const invalid = {
+            error: 'invalid credentials',
+            status: HttpStatus.UNAUTHORIZED,
+        };
+        const user = await this.findUser(identifier);
+        if (!user) return invalid;
+        const problem = userAccessProblem(user);
+        if (problem) return {error: problem, status: HttpStatus.FORBIDDEN};
+        if (!(await this.checkPassword(user, currentPassword))) return invalid;
+        const error = await this.passwords.change(
+            user.id,
+            currentPassword,
+            newPassword,
+        );
+        if (error) return {error, status: HttpStatus.BAD_REQUEST};
+        return {ok: true};
+    }
+
+    async refresh(refreshToken: string): Promise<AuthResult> {
+        const claims = refreshToken
+            ? verifyJwt(refreshToken, AUTH.jwtSecret)
+            : null;
+        if (!claims || claims.typ !== 'refresh') {
+            return {
+                error: 'invalid refresh token',
+                status: HttpStatus.UNAUTHORIZED,
+            };
+        }
+        // Re-check the user so deactivation takes effect at the next refresh
+        const user = await this.users.getById(claims.sub);
+        if (!user) {
+            return {
+                error: 'invalid refresh token',
+                status: HttpStatus.UNAUTHORIZED,
+            };
+        }
+        const problem = userAccessProblem(user);
+        if (problem) return {error: problem, status: HttpStatus.FORBIDDEN};
+        return {tokens: this.issue(user)};
+    }
+
+    verifyAccessToken(token: string): AccessClaims | null {
+        const claims = verifyJwt(token, AUTH.jwtSecret);
+        if (!claims || claims.typ !== 'access') return null;
+        return claims as AccessClaims;
+    }
+
+    private issue(user: UserRecord): AuthTokens {
+        return {
+            tokenType: 'Bearer',
+            accessToken: signJwt(
+                {sub: user.id, typ: 'access', username: user.username},
+                AUTH.jwtSecret,
+                AUTH.accessTtl,
+            ),
+            refreshToken: signJwt(
+                {sub: user.id, typ: 'refresh'},
+                AUTH.jwtSecret,
+                AUTH.refreshTtl,
+            ),
+            expiresIn: AUTH.accessTtl,
+            user: {id: user.id, username: user.username, email: user.email},
+        };
+    }
+}
@@ -0,0 +1,381 @@
+import {CreateAccountDto} from '../dto/accounts';
+import {NamedEntityDto} from '../dto/catalog';
+import {CreateEnterpriseProductServiceDto} from '../dto/enterpriseProductsServices';
+import {ValidationError} from '../errors';
+import {validateRecord} from '../http/validation';
+import {RepositoryFactory} from '../repositories';
+import {AccountsService} from './accounts';
+import {EnterpriseProductsServicesService} from './enterpriseProductsServices';
+import {EnterprisesService} from './enterprises';
+import {LicensesService} from './licenses';
+import {ProductsService} from './products';
+import {ServicesService} from './services';
+
+export type BulkEntity =
+    | 'accounts'
+    | 'enterprises'
+    | 'products'
+    | 'services'
+    | 'enterprise-products-services';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Rows are numbered from 1 in the order given, not counting a CSV header
+export interface ImportRowError {
+    row: number;
+    // null when the row as a whole is wrong
+    field: string | null;
+    messages: string[];
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged';
+
+export interface ImportRowResult {
+    row: number;
+    action: ImportAction;
+    // Natural key values of the row
+    key: Record<string, unknown>;
+    // Of the matched record, or of the created one once committed
+    id: number | null;
+}
+
+export interface ImportReport {
+    entity: BulkEntity;
+    dryRun: boolean;
+    total: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    rows: ImportRowResult[];
+    errors: ImportRowError[];
+}
+
+export interface ExportTable {
+    columns: string[];
+    records: Record<string, unknown>[];
+}
+
+export interface BulkServices {
+    accounts: AccountsService;
+    enterprises: EnterprisesService;
+    products: ProductsService;
+    services: ServicesService;
+    linkages: EnterpriseProductsServicesService;
+    licenses: LicensesService;
+}
+
+// Fills ids from names before validation and checks what they point at;
+// returns the messages per field
+type Resolver = (row: Record<string, unknown>) => Record<string, string[]>;
+
+interface BulkTarget {
+    dto: new () => object;
+    // An imported row updates the live record with the same values here,
+    // or creates one
+    key: string[];
+    // Exported in this order; imports take the same columns except id
+    columns: string[];
+    // Replaced by an import row when they differ
+    fields: string[];
+    list(): Promise<any[]>;
+    create(body: any): Promise<{id: number}>;
+    update(id: number, body: any): Promise<unknown>;
+    resolver?: () => Promise<Resolver>;
+    // Why writing each body would be refused (null when it wouldn't),
+    // for checks beyond the DTO such as licenses
+    refusals?: (bodies: any[]) => Promise<(string | null)[]>;
+}
+
+interface PlannedRow {
+    result: ImportRowResult;
+    body: Record<string, unknown>;
+}
+
+// Empty CSV cells and missing JSON properties mean the same
+function sameValue(a: unknown, b: unknown): boolean {
+    const blank = (v: unknown) => v === undefined || v === null || v === '';
+    if (blank(a) || blank(b)) return blank(a) && blank(b);
+    return String(a) === String(b);
+}
+
+const LINK_PARTS = ['enterprise', 'product', 'service'] as const;
+
+/**
+ * Bulk import and export of the catalogue master data. Imports are
+ * validated row by row with the same DTOs as single creates, matched to
+ * live records by natural key (e.g. accountName) and then either only
+ * previewed or applied in one transaction in postgres mode.
+ */
+export class BulkImportService {
+    private targets: Record<BulkEntity, BulkTarget>;
+
+    constructor(
+        private readonly repositories: RepositoryFactory,
+        private readonly catalog: BulkServices,
+    ) {
+        const {accounts, enterprises, products, services} = catalog;
+        const accountFields = [
+            'accountName',
+            'clientId',
+            'clientName',
+            'contactName',
+            'contactTitle',
+            'contactEmail',
+            'contactPhone',
+            'licenseId',
+        ];
+        const named = (service: {
+            list(): Promise<any[]>;
+            create(body: {name: string}): Promise<{id: number}>;
+            update(id: number, body: {name: string}): Promise<unknown>;
+        }): BulkTarget => ({
+            dto: NamedEntityDto,
+            key: ['name'],
+            columns: ['id', 'name'],
+            fields: ['name'],
+            list: () => service.list(),
+            create: (body) => service.create(body),
+            update: (id, body) => service.update(id, body),
+        });
+        this.targets = {
+            accounts: {
+                dto: CreateAccountDto,
+                key: ['accountName'],
+                columns: ['id', ...accountFields],
+                fields: accountFields,
+                list: () => accounts.list(),
+                create: (body) => accounts.create(body),
+                update: (id, body) => accounts.update(id, body),
+            },
+            enterprises: named(enterprises),
+            products: named(products),
+            services: named(services),
+            'enterprise-products-services': {
+                dto: CreateEnterpriseProductServiceDto,
+                // A linkage is nothing but its triple, so rows never update
+                key: ['enterpriseId', 'productId', 'serviceId'],
+                columns: [
+                    'id',
+                    'enterpriseId',
+                    'enterpriseName',
+                    'productId',
+                    'productName',
+                    'serviceId',
+                    'serviceName',
+                ],
+                fields: ['enterpriseId', 'productId', 'serviceId'],
+                list: () => this.linkagesWithNames(),
+                create: (body) => catalog.linkages.create(body),
+                update: async () => undefined,
+                resolver: () => this.linkageResolver(),
+                refusals: (bodies) => this.unentitled(bodies),
+            },
+        };
+    }
+
+    async export(entity: BulkEntity): Promise<ExportTable> {
+        const target = this.targets[entity];
+        const records = await target.list();
+        return {
+            columns: target.columns,
+            records: records.map((r) =>
+                Object.fromEntries(target.columns.map((c) => [c, r[c]])),
+            ),
+        };
+    }
+
+    /**
+     * Checks every row and works out what it would do. A dry run only
+     * reports that; otherwise rows are written once all of them are valid,
+     * and any invalid row fails the whole import with the report's errors.
+     */
+    async import(
+        entity: BulkEntity,
+        rows: unknown,
+        dryRun: boolean,
+    ): Promise<ImportReport> {
+        if (!Array.isArray(rows))
+            throw new ValidationError(
+                'an import is a JSON array of records or a CSV file',
+            );
+        if (rows.length > MAX_IMPORT_ROWS)
+            throw new ValidationError(
+                `an import holds at most ${MAX_IMPORT_ROWS} rows`,
+                {rows: rows.length},
+            );
+        const target = this.targets[entity];
+        const existing = new Map<string, any>();
+        for (const record of await target.list())
+            existing.set(this.keyOf(target, record), record);
+        const resolve = target.resolver ? await target.resolver() : null;
+
+        const errors: ImportRowError[] = [];
+        let planned: PlannedRow[] = [];
+        const seen = new Map<string, number>();
+        for (const [i, raw] of rows.entries()) {
+            const row = i + 1;
+            if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+                errors.push({row, field: null, messages: ['not a record']});
+                continue;
+            }
+            const plain: Record<string, unknown> = {};
+            for (const [field, value] of Object.entries(raw))
+                if (value !== '') plain[field] = value;
+            const fields = resolve ? resolve(plain) : {};
+            if (Object.keys(fields).length === 0) {
+                const checked = await validateRecord(target.dto, plain);
+                Object.assign(fields, checked.fields);
+                Object.assign(plain, checked.value);
+            }
+            for (const [field, messages] of Object.entries(fields))
+                errors.push({row, field, messages});
+            if (Object.keys(fields).length > 0) continue;
+
+            const body = Object.fromEntries(
+                target.fields.map((f) => [f, plain[f]]),
+            );
+            const keyString = this.keyOf(target, body);
+            const first = seen.get(keyString);
+            if (first !== undefined) {
+                errors.push({
+                    row,
+                    field: target.key.join(','),
+                    messages: [`same ${target.key.join(', ')} as row ${first}`],
+                });
+                continue;
+            }
+            seen.set(keyString, row);
+            const match = existing.get(keyString);
+            const key = Object.fromEntries(target.key.map((f) => [f, body[f]]));
+            const action: ImportAction = !match
+                ? 'create'
+                : target.fields.every((f) => sameValue(body[f], match[f]))
+                  ? 'unchanged'
+                  : 'update';
+            planned.push({
+                result: {row, action, key, id: match ? match.id : null},
+                body,
+            });
+        }
+        // So that the preview fails the rows the write would
+        const writes = planned.filter((p) => p.result.action !== 'unchanged');
+        if (target.refusals && writes.length > 0) {
+            const refused = new Set<PlannedRow>();
+            const reasons = await target.refusals(writes.map((p) => p.body));
+            reasons.forEach((reason, i) => {
+                if (reason === null) return;
+                refused.add(writes[i]);
+                errors.push({
+                    row: writes[i].result.row,
+                    field: null,
+                    messages: [reason],
+                });
+            });
+            planned = planned.filter((p) => !refused.has(p));
+            errors.sort((a, b) => a.row - b.row);
+        }
+
+        const results = planned.map((p) => p.result);
+        const report: ImportReport = {
+            entity,
+            dryRun,
+            total: rows.length,
+            created: results.filter((r) => r.action === 'create').length,
+            updated: results.filter((r) => r.action === 'update').length,
+            unchanged: results.filter((r) => r.action === 'unchanged').length,
+            rows: results,
+            errors,
+        };
+        if (errors.length > 0 && !dryRun)
+            throw new ValidationError(
+                `${errors.length} problem(s) in the import, nothing written`,
+                {errors},
+            );
+        if (dryRun) return report;
+
+        await this.repositories.transaction(async () => {
+            for (const {result, body} of planned) {
+                if (result.action === 'create')
+                    result.id = (await target.create(body)).id;
+                else if (result.action === 'update')
+                    await target.update(result.id!, body);
+            }
+        });
+        return report;
+    }
+
+    private keyOf(target: BulkTarget, record: any): string {
+        return JSON.stringify(target.key.map((f) => String(record[f] ?? '')));
+    }
+
+    // Linkages plus the names of what they link, so exports read well and
+    // can be imported elsewhere by name
+    private async linkagesWithNames(): Promise<any[]> {
+        const {enterprises, products, services, linkages} = this.catalog;
+        const [links, ...parts] = await Promise.all([
+            linkages.list(),
+            enterprises.list(),
+            products.list(),
+            services.list(),
+        ]);
+        const names = parts.map(
+            (records) => new Map(records.map((r) => [r.id, r.name])),
+        );
+        return links.map((l) => ({
+            ...l,
+            enterpriseName: names[0].get(l.enterpriseId) ?? null,
+            productName: names[1].get(l.productId) ?? null,
+            serviceName: names[2].get(l.serviceId) ?? null,
+        }));
+    }
+
+    private async unentitled(bodies: any[]): Promise<(string | null)[]> {
+        const triples = bodies.map((b) => ({
+            enterpriseId: Number(b.enterpriseId),
+            productId: Number(b.productId),
+            serviceId: Number(b.serviceId),
+        }));
+        const denied = new Set(
+            (await this.catalog.licenses.unentitled(triples)).map((t) =>
+                JSON.stringify(t),
+            ),
+        );
+        return triples.map((t) =>
+            denied.has(JSON.stringify(t))
+                ? 'no license in force allows this linkage'
+                : null,
+        );
+    }
+
+    // Rows may name the enterprise, product and service instead of giving
+    // their ids; either way they have to exist and not be deleted
+    private async linkageResolver(): Promise<Resolver> {
+        const {enterprises, products, services} = this.catalog;
+        const lists = await Promise.all([
+            enterprises.list(),
+            products.list(),
+            services.list(),
+        ]);
+        return (row) => {
+            const fields: Record<string, string[]> = {};
+            LINK_PARTS.forEach((part, i) => {
+                const idField = `${part}Id`;
+                const name = row[`${part}Name`];
+                if (row[idField] === undefined && name !== undefined) {
+                    const found = lists[i].find((r) => r.name === name);
+                    if (found) row[idField] = found.id;
+                    else fields[idField] = [`no ${part} is named ${name}`];
+                    return;
+                }
+                const id = Number(row[idField]);
+                if (
+                    Number.isInteger(id) &&
+                    id > 0 &&
+                    !lists[i].some((r) => r.id === id)
+                )
+                    fields[idField] = [`${part} ${id} not found`];
+            });
+            return fields;
+        };
+    }
+}
@@ -1,6 +1,16 @@
-import {withPg} from '../db';
+import {NotFoundError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    Repository,
+    RepositoryFactory,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface BUSetting {
+export interface BUSetting extends Versioned {
     id: number;
     clientId: string;
     enterpriseId: string;
@@ -11,119 +21,93 @@ export interface BUSetting {
     lastUpdateDate?: string;
 }
 
+export const businessUnitMapping: EntityMapping<BUSetting> = {
+    table: 'fnd_business_unit_settings',
+    schema: 'systiva',
+    file: 'businessUnits.json',
+    idColumn: 'bu_id',
+    idStrategy: 'serial',
+    fields: {
+        clientId: 'client_id',
+        enterpriseId: 'enterprise_id',
+        entities: 'entities',
+        createdBy: 'created_by',
+        creationDate: {column: 'creation_date', timestamp: 'create'},
+        lastUpdatedBy: 'last_updated_by',
+        lastUpdateDate: {column: 'last_update_date', timestamp: 'update'},
+        ...VERSION_FIELDS,
+    },
+    orderBy: [{field: 'creationDate', desc: true}],
+    search: ['clientId', 'enterpriseId', 'entities'],
+    versioned: true,
+};
+
 export class BusinessUnitsService {
-    private readonly schema: string;
+    private repo: Repository<BUSetting>;
 
-    constructor(dir: string) {
-        this.schema = process.env.PGSCHEMA || 'systiva'; // Use systiva schema for existing tables
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(businessUnitMapping);
     }
 
     async list(): Promise<BUSetting[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    bu_id as id,
-                    client_id as "clientId",
-                    enterprise_id as "enterpriseId",
-                    entities,
-                    created_by as "createdBy",
-                    creation_date as "creationDate",
-                    last_updated_by as "lastUpdatedBy",
-                    last_update_date as "lastUpdateDate"
-                from ${this.schema}.fnd_business_unit_settings
-                order by creation_date desc`,
-            );
-            return res.rows as BUSetting[];
-        });
-        return rows;
+        return this.repo.list();
     }
 
-    async create(body: Omit<BUSetting, 'id' | 'creationDate' | 'lastUpdateDate'>): Promise<BUSetting> {
-        const created = await withPg(async (c) => {
-            const res = await c.query(
-                `insert into ${this.schema}.fnd_business_unit_settings(
-                    client_id, enterprise_id, entities, created_by, last_updated_by
-                ) values($1, $2, $3, $4, $5)
-                returning bu_id as id, client_id as "clientId", enterprise_id as "enterpriseId", entities, created_by as "createdBy", creation_date as "creationDate", last_updated_by as "lastUpdatedBy", last_update_date as "lastUpdateDate"`,
-                [
-                    body.clientId,
-                    body.enterpriseId,
-                    body.entities,
-                    body.createdBy || null,
-                    body.lastUpdatedBy || null,
-                ],
-            );
-            return res.rows[0] as BUSetting;
-        });
-        return created;
+    async page(query: PageQuery): Promise<Page<BUSetting>> {
+        return this.repo.page(query);
     }
 
-    async update(id: number, body: Partial<Omit<BUSetting, 'id' | 'creationDate'>>): Promise<BUSetting | undefined> {
-        const updated = await withPg(async (c) => {
-            const setClauses: string[] = [];
-            const values: any[] = [id];
-            let paramIndex = 2;
-
-            if (body.clientId !== undefined) {
-                setClauses.push(`client_id = $${paramIndex++}`);
-                values.push(body.clientId);
-            }
-            if (body.enterpriseId !== undefined) {
-                setClauses.push(`enterprise_id = $${paramIndex++}`);
-                values.push(body.enterpriseId);
-            }
-            if (body.entities !== undefined) {
-                setClauses.push(`entities = $${paramIndex++}`);
-                values.push(body.entities);
-            }
-            if (body.lastUpdatedBy !== undefined) {
-                setClauses.push(`last_updated_by = $${paramIndex++}`);
-                values.push(body.lastUpdatedBy);
-            }
-
-            setClauses.push(`last_update_date = now()`);
+    async get(id: number): Promise<BUSetting> {
+        const found = await this.repo.get(id);
+        if (!found) throw new NotFoundError('business unit', id);
+        return found;
+    }
 
-            const sql = `update ${this.schema}.fnd_business_unit_settings set ${setClauses.join(', ')} where bu_id = $1 returning *`;
-            
-            const res = await c.query(sql, values);
-            return (res.rows[0] as BUSetting) || undefined;
+    async create(body: Omit<BUSetting, 'id' | 'creationDate' | 'lastUpdateDate'>): Promise<BUSetting> {
+        return this.repo.create({
+            clientId: body.clientId,
+            enterpriseId: body.enterpriseId,
+            entities: body.entities || [],
+            createdBy: body.createdBy,
+            lastUpdatedBy: body.lastUpdatedBy,
         });
+    }
+
+    async update(
+        id: number,
+        body: Partial<Omit<BUSetting, 'id' | 'creationDate'>>,
+        options?: WriteOptions,
+    ): Promise<BUSetting> {
+        const updated = await this.repo.update(
+            id,
+            {
+                clientId: body.clientId,
+                enterpriseId: body.enterpriseId,
+                entities: body.entities,
+                lastUpdatedBy: body.lastUpdatedBy,
+            },
+            options,
+        );
+        if (!updated) throw new NotFoundError('business unit', id);
         return updated;
     }
 
     async remove(id: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_business_unit_settings where bu_id = $1`,
-                [id],
-            );
-        });
+        if (!(await this.repo.remove(id)))
+            throw new NotFoundError('business unit', id);
     }
 
     async listEntities(
         clientId?: string,
         enterpriseId?: string,
     ): Promise<string[]> {
-        const rows = await withPg(async (c) => {
-            const where: string[] = [];
-            const params: any[] = [];
-            if (clientId) {
-                params.push(clientId);
-                where.push(`client_id = $${params.length}`);
-            }
-            if (enterpriseId) {
-                params.push(enterpriseId);
-                where.push(`enterprise_id = $${params.length}`);
-            }
-            const whereSql =
-                where.length > 0 ? `where ${where.join(' and ')}` : '';
-            const sql = `select distinct entity
-                         from ${this.schema}.fnd_business_unit_settings, unnest(entities::text[]) as entity
-                         ${whereSql}
-                         order by 1`;
-            const res = await c.query(sql, params);
-            return res.rows as {entity: string}[];
-        });
-        return rows.map((r) => r.entity);
+        const where: Record<string, string> = {};
+        if (clientId) where.clientId = clientId;
+        if (enterpriseId) where.enterpriseId = enterpriseId;
+        const entities = new Set<string>();
+        for (const bu of await this.repo.find(where)) {
+            for (const e of bu.entities || []) entities.add(e);
+        }
+        return Array.from(entities).sort();
     }
 }
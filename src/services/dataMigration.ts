@@ -0,0 +1,188 @@
+import {ConflictError} from '../errors';
+import {
+    EntityMapping,
+    Repository,
+    RepositoryFactory,
+    Where,
+    columnOf,
+    getPath,
+} from '../repositories';
+import {auditMapping} from './audit';
+import {groupMapping} from './groups';
+import {lockEventMapping} from './lockout';
+import {credentialMapping} from './passwords';
+import {pipelineConfigMapping} from './pipelineConfig';
+import {pipelineYamlMapping} from './pipelineYaml';
+import {templateMapping} from './templates';
+import {userGroupMapping} from './userGroups';
+import {userMapping} from './users';
+
+export interface DataSet {
+    name: string;
+    mapping: EntityMapping<any>;
+    // Fields the services keep unique besides the row key
+    unique?: string[];
+}
+
+// Copied in this order, so referenced rows arrive before their referrers
+export const DATA_SETS: DataSet[] = [
+    {name: 'groups', mapping: groupMapping, unique: ['name']},
+    {name: 'users', mapping: userMapping, unique: ['username']},
+    // Without them migrated users couldn't sign in
+    {name: 'credentials', mapping: credentialMapping},
+    {name: 'lockEvents', mapping: lockEventMapping},
+    {name: 'userGroups', mapping: userGroupMapping},
+    {name: 'templates', mapping: templateMapping},
+    {name: 'pipelineYAMLs', mapping: pipelineYamlMapping},
+    {name: 'pipelineConfig', mapping: pipelineConfigMapping},
+    {name: 'auditLog', mapping: auditMapping},
+];
+
+export interface DataConflict {
+    // Row key fields (see fileKey) of the source row
+    key: Where;
+    // 'changed': the target has the key with other content; 'duplicate':
+    // another target row already holds one of the set's unique values
+    reason: 'changed' | 'duplicate';
+    fields: string[];
+}
+
+export interface DataSetReport {
+    name: string;
+    file: string;
+    table: string;
+    read: number;
+    // Rows written (or, in a dry run, that would be)
+    created: number;
+    // Already in the target with the same content
+    unchanged: number;
+    conflicts: DataConflict[];
+}
+
+// Date-times may come back from pg as Dates or in its own text format,
+// and missing fields from files as undefined
+function normalize(value: unknown): string {
+    if (typeof value === 'string' && /^\d{4}-\d\d-\d\d[T ]\d/.test(value)) {
+        const time = Date.parse(value);
+        if (!Number.isNaN(time)) value = new Date(time);
+    }
+    if (value instanceof Date) return value.toISOString();
+    return JSON.stringify(value ?? null);
+}
+
+/**
+ * Copies the user, credential, group, pipeline and audit data sets from one
+ * storage backend to the other, keeping ids, versions and timestamps. Rows
+ * already in the target are never overwritten: identical ones are skipped
+ * and differing ones are reported as conflicts for someone to resolve by
+ * hand.
+ */
+export class DataMigrationService {
+    constructor(
+        private readonly source: RepositoryFactory,
+        private readonly target: RepositoryFactory,
+    ) {}
+
+    async migrate(dryRun = false): Promise<DataSetReport[]> {
+        const reports: DataSetReport[] = [];
+        for (const set of DATA_SETS) reports.push(await this.copy(set, dryRun));
+        return reports;
+    }
+
+    private async copy(set: DataSet, dryRun: boolean): Promise<DataSetReport> {
+        const {mapping} = set;
+        const from = this.source.create<any>(mapping);
+        const to = this.target.create<any>(mapping);
+        const rows = await from.list({includeDeleted: true});
+        const report: DataSetReport = {
+            name: set.name,
+            file: mapping.file,
+            table: `${mapping.schema}.${mapping.table}`,
+            read: rows.length,
+            created: 0,
+            unchanged: 0,
+            conflicts: [],
+        };
+        for (const row of rows) {
+            const key = this.keyOf(mapping, row);
+            const existing = await to.findOne(key, {includeDeleted: true});
+            if (existing) {
+                const fields = this.differences(mapping, row, existing);
+                if (fields.length === 0) report.unchanged++;
+                else report.conflicts.push({key, reason: 'changed', fields});
+                continue;
+            }
+            const taken = await this.taken(set, to, row);
+            if (taken.length > 0) {
+                report.conflicts.push({
+                    key,
+                    reason: 'duplicate',
+                    fields: taken,
+                });
+                continue;
+            }
+            if (!dryRun) {
+                try {
+                    await to.create(row);
+                } catch (error) {
+                    // e.g. a row written to postgres since the check above
+                    if (!(error instanceof ConflictError)) throw error;
+                    report.conflicts.push({
+                        key,
+                        reason: 'duplicate',
+                        fields: Object.keys(key),
+                    });
+                    continue;
+                }
+            }
+            report.created++;
+        }
+        return report;
+    }
+
+    private keyOf(mapping: EntityMapping<any>, row: any): Where {
+        const key: Where = {};
+        for (const field of mapping.fileKey || ['id']) {
+            key[field] = getPath(row, field);
+        }
+        return key;
+    }
+
+    // Mapped fields whose values differ; timestamps and versions are
+    // bookkeeping and formatted differently per backend, so they don't count
+    private differences(
+        mapping: EntityMapping<any>,
+        a: any,
+        b: any,
+    ): string[] {
+        return Object.entries(mapping.fields)
+            .filter(([field, def]) => {
+                if (columnOf(def).timestamp) return false;
+                if (mapping.versioned && field === 'version') return false;
+                return (
+                    normalize(getPath(a, field)) !==
+                    normalize(getPath(b, field))
+                );
+            })
+            .map(([field]) => field);
+    }
+
+    // Unique fields whose value another target row already holds
+    private async taken(
+        set: DataSet,
+        to: Repository<any>,
+        row: any,
+    ): Promise<string[]> {
+        const out: string[] = [];
+        for (const field of set.unique || []) {
+            const value = getPath(row, field);
+            if (value == null) continue;
+            const holder = await to.findOne(
+                {[field]: value},
+                {includeDeleted: true},
+            );
+            if (holder) out.push(field);
+        }
+        return out;
+    }
+}
@@ -1,55 +1,179 @@
 import {withPg} from '../db';
+import {ConflictError, NotFoundError, ValidationError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    Repository,
+    RepositoryFactory,
+    VERSION_FIELDS,
+    Versioned,
+    Where,
+    WriteOptions,
+    columnOf,
+} from '../repositories';
+import {Enterprise, enterpriseMapping} from './enterprises';
+import {LicensesService} from './licenses';
+import {Product, productMapping} from './products';
+import {Service, serviceMapping} from './services';
 
-export interface EnterpriseProductService {
+export interface EnterpriseProductService extends Versioned {
     id: number;
     enterpriseId: number;
     productId: number;
     serviceId: number;
 }
 
+type Triple = Omit<EnterpriseProductService, 'id' | 'version'>;
+
+function tripleKey(t: Triple): string {
+    return `${t.enterpriseId}/${t.productId}/${t.serviceId}`;
+}
+
+// What replaceForEnterprise changed
+export interface CatalogueDiff {
+    enterpriseId: number;
+    added: EnterpriseProductService[];
+    removed: EnterpriseProductService[];
+    // Linkages that were already there and stay
+    unchanged: number;
+}
+
+// A linkage with the names of what it links
+export interface DetailedLinkage {
+    id: number;
+    enterpriseId: number;
+    enterpriseName: string;
+    productId: number;
+    productName: string;
+    serviceId: number;
+    serviceName: string;
+}
+
+export interface CatalogueNode {
+    id: number;
+    name: string;
+}
+
+export interface LinkedNode extends CatalogueNode {
+    linkageId: number;
+}
+
+export interface ProductNode extends CatalogueNode {
+    services: LinkedNode[];
+}
+
+export interface ServiceNode extends CatalogueNode {
+    products: LinkedNode[];
+}
+
+export type TreeRoot = 'product' | 'service';
+
+// An enterprise's catalogue nested by products or, the other way round, by
+// services
+export type EnterpriseTree = CatalogueNode &
+    ({products: ProductNode[]} | {services: ServiceNode[]});
+
+const byName = (a: CatalogueNode, b: CatalogueNode) =>
+    a.name.localeCompare(b.name) || a.id - b.id;
+
+interface Branch {
+    parent: CatalogueNode;
+    children: LinkedNode[];
+}
+
+// Groups linkages under their parent, both levels sorted by name
+function nest(
+    rows: DetailedLinkage[],
+    parentOf: (row: DetailedLinkage) => CatalogueNode,
+    childOf: (row: DetailedLinkage) => CatalogueNode,
+): Branch[] {
+    const groups = new Map<number, Branch>();
+    for (const row of rows) {
+        const parent = parentOf(row);
+        let group = groups.get(parent.id);
+        if (!group) groups.set(parent.id, (group = {parent, children: []}));
+        group.children.push({...childOf(row), linkageId: row.id});
+    }
+    const sorted = [...groups.values()].sort((a, b) =>
+        byName(a.parent, b.parent),
+    );
+    for (const group of sorted) group.children.sort(byName);
+    return sorted;
+}
+
+const productOf = (row: DetailedLinkage) => ({
+    id: row.productId,
+    name: row.productName,
+});
+const serviceOf = (row: DetailedLinkage) => ({
+    id: row.serviceId,
+    name: row.serviceName,
+});
+
+function productTree(rows: DetailedLinkage[]): ProductNode[] {
+    return nest(rows, productOf, serviceOf).map(({parent, children}) => ({
+        ...parent,
+        services: children,
+    }));
+}
+
+function serviceTree(rows: DetailedLinkage[]): ServiceNode[] {
+    return nest(rows, serviceOf, productOf).map(({parent, children}) => ({
+        ...parent,
+        products: children,
+    }));
+}
+
+// Table and column names for the postgres queries below
+function tableOf(mapping: EntityMapping<any>): string {
+    return `${process.env.PGSCHEMA || mapping.schema}.${mapping.table}`;
+}
+
+function columnFor(mapping: EntityMapping<any>, field: string): string {
+    return field === 'id'
+        ? mapping.idColumn
+        : columnOf(mapping.fields[field]).column;
+}
+
+export const enterpriseProductServiceMapping: EntityMapping<EnterpriseProductService> = {
+    table: 'fnd_enterprise_products_services',
+    schema: 'systiva',
+    file: 'enterpriseProductsServices.json',
+    idColumn: 'id',
+    idStrategy: 'serial',
+    fields: {
+        enterpriseId: 'enterprise_id',
+        productId: 'product_id',
+        serviceId: 'service_id',
+        ...VERSION_FIELDS,
+    },
+    orderBy: [{field: 'id'}],
+    versioned: true,
+};
+
 export class EnterpriseProductsServicesService {
-    private readonly schema: string;
+    private repo: Repository<EnterpriseProductService>;
+    private enterprises: Repository<Enterprise>;
+    private products: Repository<Product>;
+    private services: Repository<Service>;
 
-    constructor(dir: string) {
-        this.schema = process.env.PGSCHEMA || 'systiva'; // Use systiva schema for existing tables
+    constructor(
+        private readonly repositories: RepositoryFactory,
+        // New linkages have to stay within the enterprise's licenses
+        private readonly licenses: LicensesService,
+    ) {
+        this.repo = repositories.create(enterpriseProductServiceMapping);
+        // Lookup repositories used to resolve names for the detailed view
+        this.enterprises = repositories.create(enterpriseMapping);
+        this.products = repositories.create(productMapping);
+        this.services = repositories.create(serviceMapping);
     }
 
     // Check if table exists and get its structure
     async checkTableStructure(): Promise<any> {
         try {
-            const result = await withPg(async (c) => {
-                // Check if table exists
-                const tableExists = await c.query(
-                    `SELECT EXISTS (
-                        SELECT FROM information_schema.tables 
-                        WHERE table_schema = $1 
-                        AND table_name = 'fnd_enterprise_products_services'
-                    )`,
-                    [this.schema]
-                );
-                
-                if (!tableExists.rows[0].exists) {
-                    return { error: 'Table does not exist', schema: this.schema, table: 'fnd_enterprise_products_services' };
-                }
-
-                // Get table structure
-                const structure = await c.query(
-                    `SELECT column_name, data_type, is_nullable, column_default
-                     FROM information_schema.columns 
-                     WHERE table_schema = $1 
-                     AND table_name = 'fnd_enterprise_products_services'
-                     ORDER BY ordinal_position`,
-                    [this.schema]
-                );
-
-                return {
-                    tableExists: true,
-                    schema: this.schema,
-                    table: 'fnd_enterprise_products_services',
-                    structure: structure.rows
-                };
-            });
-            return result;
+            return await this.repo.describe();
         } catch (error) {
             console.error('Error checking table structure:', error);
             return { error: (error as Error).message };
@@ -57,39 +181,25 @@ export class EnterpriseProductsServicesService {
     }
 
     async list(): Promise<EnterpriseProductService[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    id,
-                    enterprise_id as "enterpriseId",
-                    product_id as "productId",
-                    service_id as "serviceId"
-                from ${this.schema}.fnd_enterprise_products_services
-                order by id`,
-            );
-            return res.rows as EnterpriseProductService[];
-        });
-        return rows;
+        return this.repo.list();
+    }
+
+    async page(query: PageQuery): Promise<Page<EnterpriseProductService>> {
+        return this.repo.page(query);
     }
 
     async create(body: Omit<EnterpriseProductService, 'id'>): Promise<EnterpriseProductService> {
         console.log('EnterpriseProductsServicesService.create called with body:', body);
-        console.log('Schema being used:', this.schema);
-        
+
         try {
-            const created = await withPg(async (c) => {
-                console.log('Executing insert query...');
-                const res = await c.query(
-                    `insert into ${this.schema}.fnd_enterprise_products_services(
-                        enterprise_id, product_id, service_id
-                    ) values($1, $2, $3)
-                    returning id, enterprise_id as "enterpriseId", product_id as "productId", service_id as "serviceId"`,
-                    [body.enterpriseId, body.productId, body.serviceId],
-                );
-                console.log('Insert result:', res.rows[0]);
-                return res.rows[0] as EnterpriseProductService;
-            });
-            
+            const triple = {
+                enterpriseId: Number(body.enterpriseId),
+                productId: Number(body.productId),
+                serviceId: Number(body.serviceId),
+            };
+            await this.assertUnique(triple);
+            await this.licenses.assertEntitled([triple]);
+            const created = await this.repo.create(triple);
             console.log('Created linkage:', created);
             return created;
         } catch (error) {
@@ -98,184 +208,363 @@ export class EnterpriseProductsServicesService {
         }
     }
 
-    async update(id: number, body: Partial<Omit<EnterpriseProductService, 'id'>>): Promise<EnterpriseProductService | null> {
-        const updated = await withPg(async (c) => {
-            const setClauses: string[] = [];
-            const values: any[] = [id];
-            let paramIndex = 2;
-
-            if (body.enterpriseId !== undefined) {
-                setClauses.push(`enterprise_id = $${paramIndex++}`);
-                values.push(body.enterpriseId);
-            }
-            if (body.productId !== undefined) {
-                setClauses.push(`product_id = $${paramIndex++}`);
-                values.push(body.productId);
-            }
-            if (body.serviceId !== undefined) {
-                setClauses.push(`service_id = $${paramIndex++}`);
-                values.push(body.serviceId);
-            }
-
-            const sql = `update ${this.schema}.fnd_enterprise_products_services set ${setClauses.join(', ')} where id = $1 returning *`;
-            
-            const res = await c.query(sql, values);
-            return (res.rows[0] as EnterpriseProductService) || null;
-        });
+    async update(
+        id: number,
+        body: Partial<Omit<EnterpriseProductService, 'id'>>,
+        options?: WriteOptions,
+    ): Promise<EnterpriseProductService> {
+        const toId = (v: number | undefined) =>
+            v === undefined ? undefined : Number(v);
+        const current = await this.get(id);
+        const triple = {
+            enterpriseId: toId(body.enterpriseId) ?? current.enterpriseId,
+            productId: toId(body.productId) ?? current.productId,
+            serviceId: toId(body.serviceId) ?? current.serviceId,
+        };
+        await this.assertUnique(triple, id);
+        if (tripleKey(triple) !== tripleKey(current))
+            await this.licenses.assertEntitled([triple]);
+        const updated = await this.repo.update(
+            id,
+            {
+                enterpriseId: toId(body.enterpriseId),
+                productId: toId(body.productId),
+                serviceId: toId(body.serviceId),
+            },
+            options,
+        );
+        if (!updated) throw new NotFoundError('linkage', id);
         return updated;
     }
 
     async remove(id: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_enterprise_products_services where id = $1`,
-                [id],
-            );
-        });
+        if (!(await this.repo.remove(id)))
+            throw new NotFoundError('linkage', id);
     }
 
-    async get(id: number): Promise<EnterpriseProductService | null> {
-        const row = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    id,
-                    enterprise_id as "enterpriseId",
-                    product_id as "productId",
-                    service_id as "serviceId"
-                from ${this.schema}.fnd_enterprise_products_services
-                where id = $1`,
-                [id],
-            );
-            return res.rows[0] as EnterpriseProductService || null;
-        });
-        return row;
+    async get(id: number): Promise<EnterpriseProductService> {
+        const found = await this.repo.get(id);
+        if (!found) throw new NotFoundError('linkage', id);
+        return found;
+    }
+
+    // A triple links its enterprise, product and service only once
+    private async assertUnique(triple: Triple, exceptId?: number) {
+        const clash = await this.repo.findOne(triple);
+        if (clash && clash.id !== exceptId)
+            throw new ConflictError('this linkage already exists', {
+                id: clash.id,
+                ...triple,
+            });
+    }
+
+    /**
+     * Makes the enterprise's linkages exactly the given product -> services
+     * mappings: missing triples are added and all others removed, including
+     * duplicates older versions allowed. The diff is applied as a single
+     * write in every storage mode.
+     */
+    async replaceForEnterprise(
+        enterpriseId: number,
+        products: {productId: number; serviceIds: number[]}[],
+    ): Promise<CatalogueDiff> {
+        if (!(await this.enterprises.get(enterpriseId)))
+            throw new NotFoundError('enterprise', enterpriseId);
+        const desired = new Map<string, Triple>();
+        for (const {productId, serviceIds} of products) {
+            for (const serviceId of serviceIds) {
+                const triple = {
+                    enterpriseId,
+                    productId: Number(productId),
+                    serviceId: Number(serviceId),
+                };
+                desired.set(tripleKey(triple), triple);
+            }
+        }
+        await this.assertCatalogue([...desired.values()]);
+
+        // assertEntitled is async, so it sees the linkages before the write
+        const existing = new Set(
+            (await this.repo.find({enterpriseId})).map(tripleKey),
+        );
+        const checked = new Set<string>();
+        await this.licenses.assertEntitled(
+            [...desired]
+                .filter(([key]) => !existing.has(key) && checked.add(key))
+                .map(([, triple]) => triple),
+        );
+
+        let unchanged = 0;
+        const {added, removed} = await this.repo.rewrite(
+            {enterpriseId},
+            (links) => {
+                const kept = new Set<string>();
+                const remove: EnterpriseProductService[] = [];
+                for (const link of links) {
+                    const key = tripleKey(link);
+                    if (desired.has(key) && !kept.has(key)) kept.add(key);
+                    else remove.push(link);
+                }
+                const add = [...desired]
+                    .filter(([key]) => !kept.has(key))
+                    .map(([key, triple]) => {
+                        if (!checked.has(key))
+                            throw new ConflictError(
+                                'the linkages changed meanwhile, try again',
+                                {enterpriseId},
+                            );
+                        return triple;
+                    });
+                unchanged = kept.size;
+                return {remove, add};
+            },
+        );
+        return {enterpriseId, added, removed, unchanged};
+    }
+
+    // Every product and service must exist and not be deleted
+    private async assertCatalogue(triples: Triple[]) {
+        const productIds = [...new Set(triples.map((t) => t.productId))];
+        const serviceIds = [...new Set(triples.map((t) => t.serviceId))];
+        const missing = {
+            productIds: [] as number[],
+            serviceIds: [] as number[],
+        };
+        for (const id of productIds) {
+            if (!(await this.products.get(id))) missing.productIds.push(id);
+        }
+        for (const id of serviceIds) {
+            if (!(await this.services.get(id))) missing.serviceIds.push(id);
+        }
+        if (missing.productIds.length > 0 || missing.serviceIds.length > 0)
+            throw new ValidationError('unknown products or services', missing);
     }
 
     // Get all linkages for a specific enterprise
     async getByEnterprise(enterpriseId: number): Promise<EnterpriseProductService[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    id,
-                    enterprise_id as "enterpriseId",
-                    product_id as "productId",
-                    service_id as "serviceId"
-                from ${this.schema}.fnd_enterprise_products_services
-                where enterprise_id = $1
-                order by id`,
-                [enterpriseId],
-            );
-            return res.rows as EnterpriseProductService[];
-        });
-        return rows;
+        return this.repo.find({enterpriseId});
     }
 
     // Get all linkages for a specific product
     async getByProduct(productId: number): Promise<EnterpriseProductService[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    id,
-                    enterprise_id as "enterpriseId",
-                    product_id as "productId",
-                    service_id as "serviceId"
-                from ${this.schema}.fnd_enterprise_products_services
-                where product_id = $1
-                order by id`,
-                [productId],
-            );
-            return res.rows as EnterpriseProductService[];
-        });
-        return rows;
+        return this.repo.find({productId});
     }
 
     // Get all linkages for a specific service
     async getByService(serviceId: number): Promise<EnterpriseProductService[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    id,
-                    enterprise_id as "enterpriseId",
-                    product_id as "productId",
-                    service_id as "serviceId"
-                from ${this.schema}.fnd_enterprise_products_services
-                where service_id = $1
-                order by id`,
-                [serviceId],
-            );
-            return res.rows as EnterpriseProductService[];
-        });
-        return rows;
+        return this.repo.find({serviceId});
+    }
+
+    // Get detailed information with names for a specific enterprise
+    async getDetailedByEnterprise(
+        enterpriseId: number,
+    ): Promise<DetailedLinkage[]> {
+        return this.detailed({enterpriseId});
+    }
+
+    // Linkages matching `where` with names; those whose enterprise, product
+    // or service no longer exists are skipped (inner-join semantics)
+    private async detailed(where: Where): Promise<DetailedLinkage[]> {
+        if (this.repositories.kind === 'postgres') return this.joined(where);
+        const [links, enterprises, products, services] = await Promise.all([
+            this.repo.find(where),
+            this.enterprises.list(),
+            this.products.list(),
+            this.services.list(),
+        ]);
+        const names = (rows: CatalogueNode[]) =>
+            new Map(rows.map((r) => [r.id, r.name]));
+        const enterpriseNames = names(enterprises);
+        const productNames = names(products);
+        const serviceNames = names(services);
+        return links
+            .filter(
+                (l) =>
+                    enterpriseNames.has(l.enterpriseId) &&
+                    productNames.has(l.productId) &&
+                    serviceNames.has(l.serviceId),
+            )
+            .map((l) => ({
+                id: l.id,
+                enterpriseId: l.enterpriseId,
+                enterpriseName: enterpriseNames.get(l.enterpriseId)!,
+                productId: l.productId,
+                productName: productNames.get(l.productId)!,
+                serviceId: l.serviceId,
+                serviceName: serviceNames.get(l.serviceId)!,
+            }));
     }
 
-    // Get detailed information with names
-    async getDetailedByEnterprise(enterpriseId: number): Promise<any[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    eps.id,
-                    eps.enterprise_id as "enterpriseId",
-                    e.enterprise_name as "enterpriseName",
-                    eps.product_id as "productId",
-                    p.product_name as "productName",
-                    eps.service_id as "serviceId",
-                    s.service_name as "serviceName"
-                from ${this.schema}.fnd_enterprise_products_services eps
-                join ${this.schema}.fnd_enterprise e on eps.enterprise_id = e.enterprise_id
-                join ${this.schema}.fnd_products p on eps.product_id = p.product_id
-                join ${this.schema}.fnd_services s on eps.service_id = s.service_id
-                where eps.enterprise_id = $1
-                order by eps.id`,
-                [enterpriseId],
-            );
-            return res.rows;
+    // detailed() as one query; only fields of the linkage mapping in `where`
+    private async joined(where: Where): Promise<DetailedLinkage[]> {
+        const link = enterpriseProductServiceMapping;
+        const params: unknown[] = [];
+        const conditions = Object.entries(where).map(([field, value]) => {
+            params.push(value);
+            return `l.${columnFor(link, field)} = $${params.length}`;
         });
-        return rows;
+        const res = await withPg(async (c) =>
+            c.query(
+                `select l.${link.idColumn} as id,
+                        l.${columnFor(link, 'enterpriseId')}
+                            as "enterpriseId",
+                        e.${columnFor(enterpriseMapping, 'name')}
+                            as "enterpriseName",
+                        l.${columnFor(link, 'productId')} as "productId",
+                        p.${columnFor(productMapping, 'name')}
+                            as "productName",
+                        l.${columnFor(link, 'serviceId')} as "serviceId",
+                        s.${columnFor(serviceMapping, 'name')}
+                            as "serviceName"
+                 from ${tableOf(link)} l
+                 ${this.joinSql('e', enterpriseMapping, 'enterpriseId')}
+                 ${this.joinSql('p', productMapping, 'productId')}
+                 ${this.joinSql('s', serviceMapping, 'serviceId')}
+                 ${conditions.length ? `where ${conditions.join(' and ')}` : ''}
+                 order by l.${link.idColumn}`,
+                params,
+            ),
+        );
+        return res.rows;
+    }
+
+    // Inner join of the linkage `l` with a live row of `mapping`
+    private joinSql(
+        alias: string,
+        mapping: EntityMapping<any>,
+        linkField: string,
+    ): string {
+        const link = enterpriseProductServiceMapping;
+        return `join ${tableOf(mapping)} ${alias}
+                  on ${alias}.${mapping.idColumn} =
+                     l.${columnFor(link, linkField)}
+                 and ${alias}.${columnFor(mapping, 'deletedAt')} is null`;
+    }
+
+    /**
+     * Live products (or services) that no detailed() linkage refers to,
+     * found with an anti-join: a left join on the linked ids that keeps the
+     * rows without a match.
+     */
+    private async unlinked(
+        mapping: EntityMapping<any>,
+        linkField: 'productId' | 'serviceId',
+    ): Promise<CatalogueNode[]> {
+        const link = enterpriseProductServiceMapping;
+        const linked = columnFor(link, linkField);
+        const name = columnFor(mapping, 'name');
+        const res = await withPg(async (c) =>
+            c.query(
+                `select x.${mapping.idColumn} as id, x.${name} as name
+                 from ${tableOf(mapping)} x
+                 left join (
+                     select l.${linked} as linked_id
+                     from ${tableOf(link)} l
+                     ${this.joinSql('e', enterpriseMapping, 'enterpriseId')}
+                     ${this.joinSql('p', productMapping, 'productId')}
+                     ${this.joinSql('s', serviceMapping, 'serviceId')}
+                 ) used on used.linked_id = x.${mapping.idColumn}
+                 where x.${columnFor(mapping, 'deletedAt')} is null
+                   and used.linked_id is null
+                 order by x.${name}, x.${mapping.idColumn}`,
+            ),
+        );
+        return res.rows;
+    }
+
+    // The enterprise's products with their services, or with root 'service'
+    // its services with the products they come with
+    async getTree(
+        enterpriseId: number,
+        root: TreeRoot = 'product',
+    ): Promise<EnterpriseTree> {
+        const enterprise = await this.enterprises.get(enterpriseId);
+        if (!enterprise) throw new NotFoundError('enterprise', enterpriseId);
+        const rows = await this.detailed({enterpriseId});
+        const node = {id: enterprise.id, name: enterprise.name};
+        return root === 'product'
+            ? {...node, products: productTree(rows)}
+            : {...node, services: serviceTree(rows)};
+    }
+
+    /**
+     * Enterprises linking the given product and/or service, each with the
+     * matching part of its catalogue (all services of the product when only
+     * the product is given, and so on).
+     */
+    async findEnterprisesUsing(filter: {
+        productId?: number;
+        serviceId?: number;
+    }): Promise<(CatalogueNode & {products: ProductNode[]})[]> {
+        const where: Where = {};
+        if (filter.productId !== undefined) where.productId = filter.productId;
+        if (filter.serviceId !== undefined) where.serviceId = filter.serviceId;
+        const rows = await this.detailed(where);
+        const enterprises = new Map<number, CatalogueNode>();
+        for (const row of rows) {
+            enterprises.set(row.enterpriseId, {
+                id: row.enterpriseId,
+                name: row.enterpriseName,
+            });
+        }
+        return [...enterprises.values()].sort(byName).map((enterprise) => ({
+            ...enterprise,
+            products: productTree(
+                rows.filter((r) => r.enterpriseId === enterprise.id),
+            ),
+        }));
+    }
+
+    // Products that no enterprise links to any service
+    async getProductsWithoutServices(): Promise<CatalogueNode[]> {
+        if (this.repositories.kind === 'postgres')
+            return this.unlinked(productMapping, 'productId');
+        const linked = new Set(
+            (await this.detailed({})).map((r) => r.productId),
+        );
+        return (await this.products.list())
+            .filter((p) => !linked.has(p.id))
+            .map((p) => ({id: p.id, name: p.name}))
+            .sort(byName);
+    }
+
+    // Services that no enterprise offers with any product
+    async getServicesWithoutProducts(): Promise<CatalogueNode[]> {
+        if (this.repositories.kind === 'postgres')
+            return this.unlinked(serviceMapping, 'serviceId');
+        const linked = new Set(
+            (await this.detailed({})).map((r) => r.serviceId),
+        );
+        return (await this.services.list())
+            .filter((s) => !linked.has(s.id))
+            .map((s) => ({id: s.id, name: s.name}))
+            .sort(byName);
     }
 
     // Remove all linkages for a specific enterprise
     async removeByEnterprise(enterpriseId: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_enterprise_products_services where enterprise_id = $1`,
-                [enterpriseId],
-            );
-        });
+        await this.repo.removeWhere({enterpriseId});
     }
 
     // Remove all linkages for a specific product
     async removeByProduct(productId: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_enterprise_products_services where product_id = $1`,
-                [productId],
-            );
-        });
+        await this.repo.removeWhere({productId});
     }
 
     // Remove all linkages for a specific service
     async removeByService(serviceId: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_enterprise_products_services where service_id = $1`,
-                [serviceId],
-            );
-        });
+        await this.repo.removeWhere({serviceId});
     }
 
     // Debug method to check table contents
     async debugTableContents(): Promise<any> {
-        const result = await withPg(async (c) => {
-            const res = await c.query(
-                `select count(*) as total_count, 
-                        array_agg(id) as ids,
-                        array_agg(enterprise_id) as enterprise_ids,
-                        array_agg(product_id) as product_ids,
-                        array_agg(service_id) as service_ids
-                from ${this.schema}.fnd_enterprise_products_services`
-            );
-            return res.rows[0];
-        });
-        return result;
+        const all = await this.repo.list();
+        return {
+            total_count: String(all.length),
+            ids: all.map((l) => l.id),
+            enterprise_ids: all.map((l) => l.enterpriseId),
+            product_ids: all.map((l) => l.productId),
+            service_ids: all.map((l) => l.serviceId),
+        };
     }
 }
@@ -1,82 +1,81 @@
-import {withPg} from '../db';
+import {NotFoundError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    ReadOptions,
+    Repository,
+    RepositoryFactory,
+    SOFT_DELETE_FIELDS,
+    SoftDeletable,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface Enterprise {
+export interface Enterprise extends SoftDeletable, Versioned {
     id: number;
     name: string;
 }
 
+export const enterpriseMapping: EntityMapping<Enterprise> = {
+    table: 'fnd_enterprise',
+    schema: 'systiva',
+    file: 'enterprises.json',
+    idColumn: 'enterprise_id',
+    idStrategy: 'serial',
+    fields: {name: 'enterprise_name', ...SOFT_DELETE_FIELDS, ...VERSION_FIELDS},
+    orderBy: [{field: 'name'}],
+    search: ['name'],
+    softDelete: true,
+    versioned: true,
+    indexes: ['name'],
+};
+
 export class EnterprisesService {
-    private readonly schema: string;
+    private repo: Repository<Enterprise>;
+
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(enterpriseMapping);
+    }
 
-    constructor(dir: string) {
-        this.schema = process.env.PGSCHEMA || 'systiva'; // Use systiva schema for existing tables
+    async list(options?: ReadOptions): Promise<Enterprise[]> {
+        return this.repo.list(options);
     }
 
-    async list(): Promise<Enterprise[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    enterprise_id as id,
-                    enterprise_name as name
-                from ${this.schema}.fnd_enterprise
-                order by enterprise_name`,
-            );
-            return res.rows as Enterprise[];
-        });
-        return rows;
+    async page(query: PageQuery): Promise<Page<Enterprise>> {
+        return this.repo.page(query);
     }
 
     async create(body: Omit<Enterprise, 'id'>): Promise<Enterprise> {
-        const created = await withPg(async (c) => {
-            const res = await c.query(
-                `insert into ${this.schema}.fnd_enterprise(
-                    enterprise_name
-                ) values($1)
-                returning enterprise_id as id, enterprise_name as name`,
-                [body.name],
-            );
-            return res.rows[0] as Enterprise;
-        });
-        return created;
+        return this.repo.create({name: body.name});
     }
 
-    async update(id: number, body: Omit<Enterprise, 'id'>): Promise<Enterprise | null> {
+    async update(
+        id: number,
+        body: Omit<Enterprise, 'id'>,
+        options?: WriteOptions,
+    ): Promise<Enterprise> {
         console.log(`Updating enterprise with ID: ${id}`);
-        
-        const updated = await withPg(async (c) => {
-            const res = await c.query(
-                `update ${this.schema}.fnd_enterprise set
-                    enterprise_name = $2
-                where enterprise_id = $1
-                returning enterprise_id as id, enterprise_name as name`,
-                [id, body.name],
-            );
-            return (res.rows[0] as Enterprise) || null;
-        });
+        const updated = await this.repo.replace(id, {name: body.name}, options);
+        if (!updated) throw new NotFoundError('enterprise', id);
         return updated;
     }
 
-    async remove(id: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_enterprise where enterprise_id = $1`,
-                [id],
-            );
-        });
+    async remove(id: number, deletedBy: string | null = null): Promise<void> {
+        if (!(await this.repo.softRemove(id, deletedBy)))
+            throw new NotFoundError('enterprise', id);
+    }
+
+    async restore(id: number): Promise<Enterprise> {
+        const restored = await this.repo.restore(id);
+        if (!restored) throw new NotFoundError('deleted enterprise', id);
+        return restored;
     }
 
-    async get(id: number): Promise<Enterprise | null> {
-        const row = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    enterprise_id as id,
-                    enterprise_name as name
-                from ${this.schema}.fnd_enterprise
-                where enterprise_id = $1`,
-                [id],
-            );
-            return res.rows[0] as Enterprise || null;
-        });
-        return row;
+    async get(id: number, options?: ReadOptions): Promise<Enterprise> {
+        const found = await this.repo.get(id, options);
+        if (!found) throw new NotFoundError('enterprise', id);
+        return found;
     }
 }
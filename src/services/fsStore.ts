@@ -1,26 +1,401 @@
 import fs from 'fs';
 import path from 'path';
+import {EntityId, getPath} from '../repositories/repository';
 
-export class FsStore<T> {
+// How long to wait for another process to release a store's lock
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 20;
+// Locks older than this were left behind by a process that crashed
+const LOCK_STALE_MS = 30 * 1000;
+// Journal entries after which the main file is rewritten
+const COMPACT_AFTER = 1000;
+
+// A file holds something other than what the store wrote; nothing is read
+// or written until it is fixed by hand, e.g. from the main file's .bak
+export class CorruptStoreError extends Error {
+    constructor(
+        readonly filePath: string,
+        cause: unknown,
+    ) {
+        super(`${filePath} is corrupt (${(cause as Error)?.message || cause})`);
+        this.name = 'CorruptStoreError';
+    }
+}
+
+export interface FsStoreOptions<T> {
+    // Turns the parsed main file into rows, e.g. to upgrade older layouts
+    upgrade?: (raw: unknown) => T[];
+    // Identifies a row; defaults to its id
+    key?: (row: T) => string;
+    // Fields with a lookup index; id always has one
+    indexes?: string[];
+}
+
+// One row written by a repository: `before` is absent for inserts and
+// `after` for deletes
+export interface Change<T> {
+    before?: T;
+    after?: T;
+}
+
+type JournalEntry<T> = {put: T} | {del: string};
+
+/**
+ * Blocks the whole process, event loop included: while another process
+ * holds a store's lock, this server answers nothing for up to
+ * LOCK_TIMEOUT_MS. That is the price of keeping withLock() synchronous, so
+ * a read-modify-write cycle can't interleave with other requests of this
+ * process either. Fine for filesystem mode, where locked sections are a
+ * few file operations and a second process on the same directory is a
+ * dev-time case; deployments that need concurrency use postgres.
+ */
+function sleepSync(ms: number) {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        return error.code === 'EPERM';
+    }
+}
+
+function fileSignature(file: string): string {
+    try {
+        const stat = fs.statSync(file);
+        return `${stat.ino}:${stat.size}:${stat.mtimeMs}`;
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return '-';
+        throw error;
+    }
+}
+
+/**
+ * One entity set of the filesystem storage mode, kept in memory with
+ * lookup indexes. Writes are appended to `<file>.journal` and folded into
+ * the main file once the journal grows long; the main file is replaced via
+ * an fsynced temp file and rename, keeping the version it replaces as
+ * `<file>.bak`. Edits by other processes (or by hand, best made after a
+ * compaction) are picked up through a directory watcher.
+ *
+ * Read-modify-write cycles run inside withLock(), which holds an advisory
+ * `<file>.lock` shared by all processes on this machine. Waiting for it
+ * blocks the event loop (see sleepSync).
+ */
+export class FsStore<T extends {id: EntityId}> {
     private filePath: string;
+    private journalPath: string;
+    private lockPath: string;
+    // withLock() is re-entrant within this process
+    private lockDepth = 0;
 
-    constructor(dir: string, fileName: string) {
+    // Row key -> row, in file order
+    private rows = new Map<string, T>();
+    // Field -> value -> keys of the rows holding it
+    private indexes = new Map<string, Map<string, Set<string>>>();
+    private journalEntries = 0;
+    // Bytes of the journal up to its last complete entry, when a crash
+    // left a torn one after them; 0 once the journal is gone, so a tail
+    // remembered from before can't cut into a new one
+    private journalTail: number | null = null;
+    // Both files as last read or written by this process
+    private signature = '';
+    // Set by the watcher; without one every access checks the files
+    private stale = true;
+    private watching = false;
+
+    constructor(
+        dir: string,
+        fileName: string,
+        private readonly options: FsStoreOptions<T> = {},
+    ) {
         if (!fs.existsSync(dir)) fs.mkdirSync(dir, {recursive: true});
         this.filePath = path.join(dir, fileName);
+        this.journalPath = `${this.filePath}.journal`;
+        this.lockPath = `${this.filePath}.lock`;
+        for (const field of ['id', ...(options.indexes || [])])
+            this.indexes.set(field, new Map());
         if (!fs.existsSync(this.filePath))
-            fs.writeFileSync(this.filePath, '[]', 'utf-8');
+            this.withLock(() => {
+                if (!fs.existsSync(this.filePath)) this.writeFile([]);
+            });
+        this.watch(dir, [fileName, path.basename(this.journalPath)]);
     }
 
+    // Copies, so callers can't change the cached rows
     readAll(): T[] {
-        const raw = fs.readFileSync(this.filePath, 'utf-8');
+        this.refresh();
+        return [...this.rows.values()].map((r) => ({...r}));
+    }
+
+    // Rows whose field equals `value`, or null if the field has no index
+    lookup(field: string, value: unknown): T[] | null {
+        const index = this.indexes.get(field);
+        if (!index || value == null) return null;
+        this.refresh();
+        const out: T[] = [];
+        for (const key of index.get(String(value)) || []) {
+            out.push({...this.rows.get(key)!});
+        }
+        return out;
+    }
+
+    apply(changes: Change<T>[]) {
+        const entries: JournalEntry<T>[] = [];
+        for (const {before, after} of changes) {
+            const replaced = before && this.keyOf(before);
+            if (replaced && (!after || this.keyOf(after) !== replaced))
+                entries.push({del: replaced});
+            if (after) entries.push({put: after});
+        }
+        if (entries.length === 0) return;
+        this.withLock(() => {
+            this.appendJournal(entries);
+            for (const entry of entries) this.replay(entry);
+            if (this.journalEntries >= COMPACT_AFTER) this.compact();
+        });
+    }
+
+    // Folds the journal into the main file
+    compact() {
+        this.withLock(() => {
+            if (this.journalEntries === 0 && this.journalTail === null) return;
+            this.writeFile([...this.rows.values()]);
+            fs.rmSync(this.journalPath, {force: true});
+            this.journalEntries = 0;
+            this.journalTail = null;
+            this.signature = this.currentSignature();
+        });
+    }
+
+    stats() {
+        this.refresh();
+        return {rows: this.rows.size, journalEntries: this.journalEntries};
+    }
+
+    withLock<R>(fn: () => R): R {
+        if (this.lockDepth === 0) {
+            this.acquire();
+            try {
+                // Another process may have written since the last event
+                this.refresh(true);
+            } catch (error) {
+                fs.rmSync(this.lockPath, {force: true});
+                throw error;
+            }
+        }
+        this.lockDepth++;
+        try {
+            return fn();
+        } finally {
+            this.lockDepth--;
+            if (this.lockDepth === 0) fs.rmSync(this.lockPath, {force: true});
+        }
+    }
+
+    private keyOf(row: T): string {
+        return this.options.key ? this.options.key(row) : String(row.id);
+    }
+
+    private refresh(force = false) {
+        if (!force && this.watching && !this.stale) return;
+        const signature = this.currentSignature();
+        if (signature !== this.signature) this.reload(signature);
+        this.stale = false;
+    }
+
+    private currentSignature(): string {
+        return [this.filePath, this.journalPath].map(fileSignature).join('|');
+    }
+
+    private reload(signature: string) {
+        // Only missing while the constructor creates it
+        const raw = fs.existsSync(this.filePath)
+            ? fs.readFileSync(this.filePath, 'utf-8')
+            : '[]';
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(raw);
+        } catch (error) {
+            throw new CorruptStoreError(this.filePath, error);
+        }
+        const rows = this.options.upgrade
+            ? this.options.upgrade(parsed)
+            : Array.isArray(parsed)
+              ? (parsed as T[])
+              : [];
+        this.rows.clear();
+        for (const index of this.indexes.values()) index.clear();
+        for (const row of rows) this.replay({put: row});
+        const journal = this.readJournal();
+        for (const entry of journal) this.replay(entry);
+        this.journalEntries = journal.length;
+        this.signature = signature;
+    }
+
+    private readJournal(): JournalEntry<T>[] {
+        let buf: Buffer;
+        try {
+            buf = fs.readFileSync(this.journalPath);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                this.journalTail = 0;
+                return [];
+            }
+            throw error;
+        }
+        const lines = buf.toString('utf-8').split('\n');
+        const entries: JournalEntry<T>[] = [];
+        this.journalTail = null;
+        lines.forEach((line, i) => {
+            if (line === '') return;
+            try {
+                entries.push(JSON.parse(line));
+            } catch (error) {
+                // A crash mid-append can only tear the last entry
+                if (i < lines.length - 1)
+                    throw new CorruptStoreError(this.journalPath, error);
+                this.journalTail = buf.lastIndexOf(0x0a) + 1;
+            }
+        });
+        return entries;
+    }
+
+    private replay(entry: JournalEntry<T>) {
+        if ('del' in entry) {
+            this.unindex(entry.del);
+            this.rows.delete(entry.del);
+            return;
+        }
+        const row = {...entry.put};
+        const key = this.keyOf(row);
+        this.unindex(key);
+        this.rows.set(key, row);
+        for (const [field, index] of this.indexes) {
+            const value = getPath(row, field);
+            if (value == null) continue;
+            let keys = index.get(String(value));
+            if (!keys) index.set(String(value), (keys = new Set()));
+            keys.add(key);
+        }
+    }
+
+    private unindex(key: string) {
+        const row = this.rows.get(key);
+        if (!row) return;
+        for (const [field, index] of this.indexes) {
+            const value = getPath(row, field);
+            if (value == null) continue;
+            const keys = index.get(String(value));
+            keys?.delete(key);
+            if (keys?.size === 0) index.delete(String(value));
+        }
+    }
+
+    private appendJournal(entries: JournalEntry<T>[]) {
+        const created = !fs.existsSync(this.journalPath);
+        const fd = fs.openSync(this.journalPath, 'a');
+        try {
+            // Through the descriptor, as the journal may only exist now
+            if (this.journalTail !== null) {
+                fs.ftruncateSync(fd, this.journalTail);
+                this.journalTail = null;
+            }
+            fs.writeFileSync(
+                fd,
+                entries.map((e) => `${JSON.stringify(e)}\n`).join(''),
+                'utf-8',
+            );
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        if (created) this.syncDir();
+        this.journalEntries += entries.length;
+        this.signature = this.currentSignature();
+    }
+
+    private writeFile(rows: T[]) {
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        const fd = fs.openSync(tmpPath, 'w');
+        try {
+            fs.writeFileSync(fd, JSON.stringify(rows, null, 2), 'utf-8');
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        if (fs.existsSync(this.filePath))
+            fs.copyFileSync(this.filePath, `${this.filePath}.bak`);
+        fs.renameSync(tmpPath, this.filePath);
+        this.syncDir();
+    }
+
+    // The directory rather than the file: renames replace the file's inode
+    private watch(dir: string, names: string[]) {
         try {
-            return JSON.parse(raw) as T[];
+            const watcher = fs.watch(dir, {persistent: false}, (_, name) => {
+                if (!name || names.includes(String(name))) this.stale = true;
+            });
+            watcher.on('error', () => {
+                this.watching = false;
+                watcher.close();
+            });
+            this.watching = true;
         } catch {
-            return [];
+            // e.g. out of inotify watches; refresh() then always checks
         }
     }
 
-    writeAll(data: T[]) {
-        fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf-8');
+    private acquire() {
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+        for (;;) {
+            try {
+                fs.writeFileSync(this.lockPath, String(process.pid), {
+                    flag: 'wx',
+                });
+                return;
+            } catch (error: any) {
+                if (error.code !== 'EEXIST') throw error;
+            }
+            if (this.clearStaleLock()) continue;
+            if (Date.now() > deadline)
+                throw new Error(`timed out waiting for ${this.lockPath}`);
+            sleepSync(LOCK_RETRY_MS);
+        }
     }
+
+    // Removes the lock of a process that exited without releasing it;
+    // true when the lock is gone and acquiring can be retried
+    private clearStaleLock(): boolean {
+        try {
+            const pid = Number(fs.readFileSync(this.lockPath, 'utf-8'));
+            const age = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+            if (age < LOCK_STALE_MS && (!pid || isRunning(pid))) return false;
+            fs.unlinkSync(this.lockPath);
+            return true;
+        } catch (error: any) {
+            return error.code === 'ENOENT';
+        }
+    }
+
+    // Makes renames and new files durable; not every platform can fsync a
+    // directory
+    private syncDir() {
+        let fd: number | undefined;
+        try {
+            fd = fs.openSync(path.dirname(this.filePath), 'r');
+            fs.fsyncSync(fd);
+        } catch {
+            // best effort
+        } finally {
+            if (fd !== undefined) fs.closeSync(fd);
+        }
+    }
+}
+
+// Next value of a numeric id sequence, mirroring a serial column in postgres
+export function nextNumericId<T extends {id: number}>(rows: T[]): number {
+    return rows.reduce((max, r) => Math.max(max, Number(r.id) || 0), 0) + 1;
 }
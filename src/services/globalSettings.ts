@@ -1,170 +1,281 @@
 import {v4 as uuid} from 'uuid';
-import {withPg} from '../db';
+import {ConflictError, NotFoundError, ValidationError} from '../errors';
+import {
+    EntityMapping,
+    Repository,
+    RepositoryFactory,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface GlobalSettingRecord {
+export const GLOBAL_SETTING_CATEGORIES = [
+    'plan',
+    'code',
+    'build',
+    'test',
+    'release',
+    'deploy',
+    'others',
+] as const;
+
+export type GlobalSettingCategory = (typeof GLOBAL_SETTING_CATEGORIES)[number];
+
+export interface GlobalSettingRecord extends Versioned {
     id: string;
     accountId: string;
     accountName: string;
-    enterpriseId?: string;
+    // Null (or absent) for account-wide settings
+    enterpriseId?: string | null;
     enterpriseName: string;
     entities: string[];
-    categories: {
-        plan: string[];
-        code: string[];
-        build: string[];
-        test: string[];
-        release: string[];
-        deploy: string[];
-        others: string[];
-    };
+    categories: Record<GlobalSettingCategory, string[]>;
+    lastUpdateDate?: string;
 }
 
-export class GlobalSettingsService {
-    private readonly schema: string;
+// RFC 4122 ids only; the zero-padded ids of older versions do not match
+const UUID_RE =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// What clients send; missing categories and entities default to empty lists
+export type GlobalSettingInput = Omit<
+    GlobalSettingRecord,
+    'id' | 'entities' | 'categories' | 'lastUpdateDate' | 'version'
+> & {
+    entities?: string[];
+    categories?: Partial<GlobalSettingRecord['categories']>;
+};
+
+export function isGlobalSettingId(id: unknown): id is string {
+    return typeof id === 'string' && UUID_RE.test(id);
+}
 
-    constructor(dir: string) {
-        this.schema = process.env.PGSCHEMA || 'systiva'; // Use systiva schema for existing tables
+// Human-friendly form of an account or enterprise name, e.g. "Acme Corp" -> "acme-corp"
+export function slugify(name: string | null | undefined): string {
+    return (name || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Checks the tool categories object and fills in missing categories with
+ * empty lists. Returns an error message instead when the shape is wrong.
+ */
+export function normalizeCategories(
+    input: unknown,
+): {categories: GlobalSettingRecord['categories']} | {error: string} {
+    const value = input ?? {};
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        return {error: 'categories must be an object'};
+    }
+    const source = value as Record<string, unknown>;
+    const unknownKeys = Object.keys(source).filter(
+        (k) => !(GLOBAL_SETTING_CATEGORIES as readonly string[]).includes(k),
+    );
+    if (unknownKeys.length > 0) {
+        return {error: `unknown categories: ${unknownKeys.join(', ')}`};
     }
+    const categories = {} as GlobalSettingRecord['categories'];
+    for (const key of GLOBAL_SETTING_CATEGORIES) {
+        const list = source[key] ?? [];
+        if (!isStringArray(list)) {
+            return {error: `categories.${key} must be an array of strings`};
+        }
+        categories[key] = list;
+    }
+    return {categories};
+}
+
+// Callers validate first (see the global settings DTOs), so a bad shape here
+// is a programming error
+function categoriesOf(input: unknown): GlobalSettingRecord['categories'] {
+    const result = normalizeCategories(input);
+    if ('error' in result) throw new Error(result.error);
+    return result.categories;
+}
 
-    // Helper method to convert short ID to UUID format
-    private normalizeId(id: string): string {
-        // If it's already a valid UUID, return as is
-        if (id.length === 36 && id.includes('-')) {
-            return id;
+export const globalSettingMapping: EntityMapping<GlobalSettingRecord> = {
+    table: 'fnd_global_settings',
+    schema: 'systiva',
+    file: 'globalSettings.json',
+    idColumn: 'gs_id',
+    idStrategy: 'uuid',
+    fields: {
+        accountId: 'account_id',
+        accountName: 'account_name',
+        enterpriseId: 'enterprise_id',
+        enterpriseName: 'enterprise_name',
+        entities: 'entities',
+        categories: {column: 'categories', json: true},
+        lastUpdateDate: {column: 'last_update_date', timestamp: 'update'},
+        ...VERSION_FIELDS,
+    },
+    orderBy: [{field: 'accountName'}, {field: 'enterpriseName'}],
+    versioned: true,
+};
+
+// What rekeyLegacyIds() changes among `rows`
+function rekeyPlan(rows: GlobalSettingRecord[]) {
+    const pair = (r: GlobalSettingRecord) =>
+        `${r.accountId}/${r.enterpriseId || ''}`;
+    const rekeyed = new Map(
+        rows.filter((r) => isGlobalSettingId(r.id)).map((r) => [pair(r), r]),
+    );
+    const changes: {from: string; to: string}[] = [];
+    const remove: GlobalSettingRecord[] = [];
+    const add: GlobalSettingRecord[] = [];
+    for (const record of rows) {
+        if (isGlobalSettingId(record.id)) continue;
+        remove.push(record);
+        const done = rekeyed.get(pair(record));
+        if (done) {
+            changes.push({from: String(record.id), to: done.id});
+            continue;
         }
-        
-        // If it's a short ID, pad it to make it a valid UUID
-        const paddedId = id.padEnd(32, '0');
-        return `${paddedId.slice(0, 8)}-${paddedId.slice(8, 12)}-${paddedId.slice(12, 16)}-${paddedId.slice(16, 20)}-${paddedId.slice(20, 32)}`;
+        const {lastUpdateDate: _omitDate, ...rest} = record;
+        const copy = {...rest, id: uuid()};
+        changes.push({from: String(record.id), to: copy.id});
+        add.push(copy);
+    }
+    return {changes, remove, add};
+}
+
+export class GlobalSettingsService {
+    private repo: Repository<GlobalSettingRecord>;
+
+    constructor(private readonly repositories: RepositoryFactory) {
+        this.repo = repositories.create(globalSettingMapping);
     }
 
     async list(): Promise<GlobalSettingRecord[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    gs_id as id,
-                    account_id as "accountId",
-                    account_name as "accountName",
-                    enterprise_id as "enterpriseId",
-                    enterprise_name as "enterpriseName",
-                    entities,
-                    categories
-                from ${this.schema}.fnd_global_settings
-                order by account_name, enterprise_name`,
-            );
-            return res.rows as GlobalSettingRecord[];
-        });
-        return rows;
+        return this.repo.list();
     }
 
-    async create(
-        body: Omit<GlobalSettingRecord, 'id'>,
-    ): Promise<GlobalSettingRecord> {
-        const id = uuid();
-        const created = await withPg(async (c) => {
-            await c.query(
-                `insert into ${this.schema}.fnd_global_settings(
-                    gs_id, account_id, account_name, enterprise_id, enterprise_name, entities, categories
-                ) values($1, $2, $3, $4, $5, $6, $7)`,
-                [
-                    id,
-                    body.accountId,
-                    body.accountName,
-                    body.enterpriseId,
-                    body.enterpriseName,
-                    body.entities,
-                    body.categories,
-                ],
-            );
-            
-            const res = await c.query(
-                `select
-                    gs_id as id,
-                    account_id as "accountId",
-                    account_name as "accountName",
-                    enterprise_id as "enterpriseId",
-                    enterprise_name as "enterpriseName",
-                    entities,
-                    categories
-                from ${this.schema}.fnd_global_settings
-                where gs_id = $1`,
-                [id],
-            );
-            return res.rows[0] as GlobalSettingRecord;
-        });
-        return created;
+    // Settings for one account, optionally narrowed to one enterprise
+    async listByAccount(accountId: string): Promise<GlobalSettingRecord[]> {
+        return this.repo.find({accountId});
+    }
+
+    async findByAccountAndEnterprise(
+        accountId: string,
+        enterpriseId?: string | null,
+    ): Promise<GlobalSettingRecord | null> {
+        return this.repo.findOne({accountId, enterpriseId: enterpriseId || null});
+    }
+
+    async findBySlug(
+        accountSlug: string,
+        enterpriseSlug: string,
+    ): Promise<GlobalSettingRecord | null> {
+        const a = slugify(accountSlug);
+        const e = slugify(enterpriseSlug);
+        const all = await this.repo.list();
+        return (
+            all.find(
+                (r) =>
+                    slugify(r.accountName) === a &&
+                    slugify(r.enterpriseName) === e,
+            ) || null
+        );
     }
 
-    async get(id: string): Promise<GlobalSettingRecord | null> {
-        const normalizedId = this.normalizeId(id);
-        const row = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    gs_id as id,
-                    account_id as "accountId",
-                    account_name as "accountName",
-                    enterprise_id as "enterpriseId",
-                    enterprise_name as "enterpriseName",
-                    entities,
-                    categories
-                from ${this.schema}.fnd_global_settings
-                where gs_id = $1`,
-                [normalizedId],
+    // One record per account/enterprise pair
+    private async assertUnique(
+        accountId: string,
+        enterpriseId: string | null | undefined,
+        exceptId?: string,
+    ) {
+        const clash = await this.findByAccountAndEnterprise(
+            accountId,
+            enterpriseId,
+        );
+        if (clash && clash.id !== exceptId)
+            throw new ConflictError(
+                'settings already exist for this account and enterprise',
+                {id: clash.id},
             );
-            return res.rows[0] as GlobalSettingRecord || null;
-        });
-        return row;
     }
 
-    async update(id: string, body: Partial<Omit<GlobalSettingRecord, 'id'>>): Promise<GlobalSettingRecord | null> {
-        const normalizedId = this.normalizeId(id);
-        const updated = await withPg(async (c) => {
-            const setClauses: string[] = [];
-            const values: any[] = [normalizedId];
-            let paramIndex = 2;
-
-            if (body.accountId !== undefined) {
-                setClauses.push(`account_id = $${paramIndex++}`);
-                values.push(body.accountId);
-            }
-            if (body.accountName !== undefined) {
-                setClauses.push(`account_name = $${paramIndex++}`);
-                values.push(body.accountName);
-            }
-            if (body.enterpriseId !== undefined) {
-                setClauses.push(`enterprise_id = $${paramIndex++}`);
-                values.push(body.enterpriseId);
-            }
-            if (body.enterpriseName !== undefined) {
-                setClauses.push(`enterprise_name = $${paramIndex++}`);
-                values.push(body.enterpriseName);
-            }
-            if (body.entities !== undefined) {
-                setClauses.push(`entities = $${paramIndex++}`);
-                values.push(body.entities);
-            }
-            if (body.categories !== undefined) {
-                setClauses.push(`categories = $${paramIndex++}`);
-                values.push(body.categories);
-            }
-
-            setClauses.push(`last_update_date = now()`);
-
-            const sql = `update ${this.schema}.fnd_global_settings set ${setClauses.join(', ')} where gs_id = $1 returning *`;
-            
-            const res = await c.query(sql, values);
-            return (res.rows[0] as GlobalSettingRecord) || null;
+    async create(body: GlobalSettingInput): Promise<GlobalSettingRecord> {
+        await this.assertUnique(body.accountId, body.enterpriseId);
+        return this.repo.create({
+            accountId: body.accountId,
+            accountName: body.accountName,
+            enterpriseId: body.enterpriseId || undefined,
+            enterpriseName: body.enterpriseName,
+            entities: body.entities || [],
+            categories: categoriesOf(body.categories),
         });
+    }
+
+    async get(id: string): Promise<GlobalSettingRecord> {
+        if (!isGlobalSettingId(id)) throw new ValidationError('invalid id');
+        const found = await this.repo.get(id);
+        if (!found) throw new NotFoundError('global setting', id);
+        return found;
+    }
+
+    async update(
+        id: string,
+        body: Partial<GlobalSettingInput>,
+        options?: WriteOptions,
+    ): Promise<GlobalSettingRecord> {
+        const current = await this.get(id);
+        await this.assertUnique(
+            body.accountId ?? current.accountId,
+            body.enterpriseId !== undefined
+                ? body.enterpriseId
+                : current.enterpriseId,
+            id,
+        );
+        const updated = await this.repo.update(
+            id,
+            {
+                accountId: body.accountId,
+                accountName: body.accountName,
+                enterpriseId: body.enterpriseId,
+                enterpriseName: body.enterpriseName,
+                entities: body.entities,
+                categories:
+                    body.categories !== undefined
+                        ? categoriesOf(body.categories)
+                        : undefined,
+            },
+            options,
+        );
+        if (!updated) throw new NotFoundError('global setting', id);
         return updated;
     }
 
     async remove(id: string): Promise<void> {
-        const normalizedId = this.normalizeId(id);
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_global_settings where gs_id = $1`,
-                [normalizedId],
-            );
-        });
+        await this.get(id);
+        await this.repo.remove(id);
+    }
+
+    /**
+     * One-off fix for rows created while ids were zero-padded to look like
+     * UUIDs: each such row is re-created under a fresh UUID, all in one
+     * write. A legacy row whose account/enterprise pair already has a UUID
+     * row was re-keyed by an earlier run that stopped halfway, so only the
+     * legacy row is dropped. With dryRun the mapping is only reported.
+     */
+    async rekeyLegacyIds(
+        dryRun = false,
+    ): Promise<{from: string; to: string}[]> {
+        if (dryRun) return rekeyPlan(await this.repo.list()).changes;
+        let changes: {from: string; to: string}[] = [];
+        await this.repositories.transaction(() =>
+            this.repo.rewrite({}, (rows) => {
+                const plan = rekeyPlan(rows);
+                changes = plan.changes;
+                return plan;
+            }),
+        );
+        return changes;
     }
 }
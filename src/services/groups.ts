@@ -1,43 +1,103 @@
-import {v4 as uuid} from 'uuid';
-import {FsStore} from './fsStore';
+import {NotFoundError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    Repository,
+    RepositoryFactory,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface GroupMasterRecord {
+export interface GroupMasterRecord extends Versioned {
     id: string;
     name: string;
     description?: string;
+    // e.g. accounts:write, templates:read, pipeline-config:admin
+    permissions?: string[];
 }
 
+export const groupMapping: EntityMapping<GroupMasterRecord> = {
+    table: 'groups',
+    schema: 'devops',
+    file: 'groups.json',
+    idColumn: 'group_id',
+    idStrategy: 'uuid',
+    fields: {
+        name: 'name',
+        description: 'description',
+        permissions: 'permissions',
+        ...VERSION_FIELDS,
+    },
+    search: ['name', 'description'],
+    indexes: ['name'],
+    versioned: true,
+};
+
 export class GroupsService {
-    private store: FsStore<GroupMasterRecord>;
+    private repo: Repository<GroupMasterRecord>;
 
-    constructor(dir: string) {
-        this.store = new FsStore<GroupMasterRecord>(dir, 'groups.json');
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(groupMapping);
     }
 
-    list(search?: string): GroupMasterRecord[] {
-        const all = this.store.readAll();
+    async list(search?: string): Promise<GroupMasterRecord[]> {
+        const all = await this.repo.list();
         if (!search) return all;
         const q = search.toLowerCase();
         return all.filter((g) => g.name.toLowerCase().includes(q));
     }
 
-    get(id: string): GroupMasterRecord | undefined {
-        return this.store.readAll().find((g) => g.id === id);
+    async page(query: PageQuery): Promise<Page<GroupMasterRecord>> {
+        return this.repo.page(query);
+    }
+
+    async get(id: string): Promise<GroupMasterRecord> {
+        const found = await this.repo.get(id);
+        if (!found) throw new NotFoundError('group', id);
+        return found;
     }
 
-    findByName(name: string): GroupMasterRecord | undefined {
-        const q = name.toLowerCase();
-        return this.store.readAll().find((g) => g.name.toLowerCase() === q);
+    // Case-insensitive; exact matches are found without a scan
+    async findByName(name: string): Promise<GroupMasterRecord | undefined> {
+        const exact = await this.repo.findOne({name});
+        if (exact) return exact;
+        const q = (name || '').toLowerCase();
+        return (await this.repo.list()).find((g) => g.name.toLowerCase() === q);
     }
 
-    create(body: {name: string; description?: string}): GroupMasterRecord {
-        const created: GroupMasterRecord = {
-            id: uuid(),
+    async create(body: {
+        name: string;
+        description?: string;
+        permissions?: string[];
+    }): Promise<GroupMasterRecord> {
+        return this.repo.create({
             name: body.name,
             description: body.description,
-        };
-        const next = [...this.store.readAll(), created];
-        this.store.writeAll(next);
-        return created;
+            permissions: body.permissions || [],
+        });
+    }
+
+    async update(
+        id: string,
+        body: {name?: string; description?: string; permissions?: string[]},
+        options?: WriteOptions,
+    ): Promise<GroupMasterRecord> {
+        const updated = await this.repo.update(
+            id,
+            {
+                name: body.name,
+                description: body.description,
+                permissions: body.permissions,
+            },
+            options,
+        );
+        if (!updated) throw new NotFoundError('group', id);
+        return updated;
+    }
+
+    async remove(id: string): Promise<void> {
+        if (!(await this.repo.remove(id))) throw new NotFoundError('group', id);
     }
 }
@@ -0,0 +1,272 @@
+import {ForeignKeyViolationError, NotFoundError} from '../errors';
+import {
+    EntityId,
+    EntityMapping,
+    ReadOptions,
+    RepositoryFactory,
+    Where,
+} from '../repositories';
+import {accountMapping} from './accounts';
+import {businessUnitMapping} from './businessUnits';
+import {enterpriseProductServiceMapping} from './enterpriseProductsServices';
+import {enterpriseMapping} from './enterprises';
+import {globalSettingMapping} from './globalSettings';
+import {groupMapping} from './groups';
+import {licenseMapping} from './licenses';
+import {credentialMapping} from './passwords';
+import {pipelineYamlMapping} from './pipelineYaml';
+import {productMapping} from './products';
+import {serviceMapping} from './services';
+import {templateMapping} from './templates';
+import {userGroupMapping} from './userGroups';
+import {userMapping} from './users';
+
+// cascade: dependents are deleted with the parent; restrict: the parent
+// can't be deleted while any exist
+export type DeletePolicy = 'cascade' | 'restrict';
+
+export interface Relation {
+    // Names the dependent entity in impact reports
+    dependent: string;
+    mapping: EntityMapping<any>;
+    policy: DeletePolicy;
+    // Selects the dependents of one parent record
+    where: (parent: any) => Where;
+}
+
+export interface DeleteRule {
+    mapping: EntityMapping<any>;
+    relations: Relation[];
+}
+
+export const DELETE_RULES = {
+    account: {
+        mapping: accountMapping,
+        relations: [
+            {
+                dependent: 'global setting',
+                mapping: globalSettingMapping,
+                policy: 'cascade',
+                where: (a) => ({accountId: String(a.id)}),
+            },
+            {
+                dependent: 'license',
+                mapping: licenseMapping,
+                policy: 'restrict',
+                where: (a) => ({accountId: a.id}),
+            },
+        ],
+    },
+    enterprise: {
+        mapping: enterpriseMapping,
+        relations: [
+            {
+                dependent: 'linkage',
+                mapping: enterpriseProductServiceMapping,
+                policy: 'cascade',
+                where: (e) => ({enterpriseId: e.id}),
+            },
+            {
+                dependent: 'global setting',
+                mapping: globalSettingMapping,
+                policy: 'cascade',
+                where: (e) => ({enterpriseId: String(e.id)}),
+            },
+            {
+                dependent: 'user group',
+                mapping: userGroupMapping,
+                policy: 'cascade',
+                where: (e) => ({enterprise: String(e.id)}),
+            },
+            // Templates and business units are owned by their teams, so
+            // they have to be moved or removed by hand first
+            {
+                dependent: 'template',
+                mapping: templateMapping,
+                policy: 'restrict',
+                where: (e) => ({'details.enterprise': e.name}),
+            },
+            {
+                dependent: 'business unit',
+                mapping: businessUnitMapping,
+                policy: 'restrict',
+                where: (e) => ({enterpriseId: String(e.id)}),
+            },
+        ],
+    },
+    product: {
+        mapping: productMapping,
+        relations: [
+            {
+                dependent: 'linkage',
+                mapping: enterpriseProductServiceMapping,
+                policy: 'restrict',
+                where: (p) => ({productId: p.id}),
+            },
+        ],
+    },
+    service: {
+        mapping: serviceMapping,
+        relations: [
+            {
+                dependent: 'linkage',
+                mapping: enterpriseProductServiceMapping,
+                policy: 'restrict',
+                where: (s) => ({serviceId: s.id}),
+            },
+        ],
+    },
+    group: {
+        mapping: groupMapping,
+        relations: [
+            {
+                dependent: 'user group',
+                mapping: userGroupMapping,
+                policy: 'cascade',
+                where: (g) => ({id: g.id}),
+            },
+        ],
+    },
+    user: {
+        mapping: userMapping,
+        relations: [
+            {
+                dependent: 'user group',
+                mapping: userGroupMapping,
+                policy: 'cascade',
+                where: (u) => ({username: u.username}),
+            },
+            {
+                dependent: 'credentials',
+                mapping: credentialMapping,
+                policy: 'cascade',
+                where: (u) => ({id: u.id}),
+            },
+        ],
+    },
+    template: {
+        mapping: templateMapping,
+        relations: [
+            {
+                dependent: 'pipeline yaml',
+                mapping: pipelineYamlMapping,
+                policy: 'cascade',
+                where: (t) => ({id: t.id}),
+            },
+        ],
+    },
+} satisfies Record<string, DeleteRule>;
+
+export type DeletableEntity = keyof typeof DELETE_RULES;
+
+export interface Dependents {
+    entity: string;
+    policy: DeletePolicy;
+    count: number;
+    ids: EntityId[];
+}
+
+export interface DeleteImpact {
+    entity: DeletableEntity;
+    id: EntityId;
+    // Only relations that currently have dependents
+    dependents: Dependents[];
+    // True when a restricting dependent prevents the delete
+    blocked: boolean;
+    // When the cascading dependents are removed: with the delete, or for
+    // soft-deleted entities only once the purge removes the record. Until
+    // then they stay as they are, so a restore gets them back.
+    cascadesAt: 'delete' | 'purge';
+}
+
+export class IntegrityService {
+    constructor(private readonly repositories: RepositoryFactory) {}
+
+    // What deleting the record would remove or be blocked by; changes nothing
+    async impact(
+        entity: DeletableEntity,
+        id: EntityId,
+    ): Promise<DeleteImpact> {
+        return (await this.assess(entity, id)).impact;
+    }
+
+    // Throws a 409 listing the blocking dependents when a restrict rule applies
+    async check(
+        entity: DeletableEntity,
+        id: EntityId,
+    ): Promise<DeleteImpact> {
+        const {impact} = await this.assess(entity, id);
+        this.assertUnblocked(impact);
+        return impact;
+    }
+
+    /**
+     * Call right before hard-deleting the record: checks like check() and
+     * then deletes the cascading dependents. The record itself is left to
+     * its own service. Soft-deleted records are found with includeDeleted.
+     */
+    async release(
+        entity: DeletableEntity,
+        id: EntityId,
+        options?: ReadOptions,
+    ): Promise<DeleteImpact> {
+        const {impact, parent} = await this.assess(entity, id, options);
+        this.assertUnblocked(impact);
+        const rule: DeleteRule = DELETE_RULES[entity];
+        for (const relation of rule.relations) {
+            if (relation.policy !== 'cascade') continue;
+            await this.repositories
+                .create(relation.mapping)
+                .removeWhere(relation.where(parent));
+        }
+        return impact;
+    }
+
+    private assertUnblocked(impact: DeleteImpact) {
+        if (!impact.blocked) return;
+        const {entity, id} = impact;
+        throw new ForeignKeyViolationError(
+            `${entity} ${id} is still referenced`,
+            {
+                entity,
+                id,
+                blocking: impact.dependents.filter(
+                    (d) => d.policy === 'restrict',
+                ),
+            },
+        );
+    }
+
+    private async assess(
+        entity: DeletableEntity,
+        id: EntityId,
+        options?: ReadOptions,
+    ) {
+        const rule: DeleteRule = DELETE_RULES[entity];
+        const parent = await this.repositories
+            .create(rule.mapping)
+            .get(id, options);
+        if (!parent) throw new NotFoundError(entity, id);
+        const dependents: Dependents[] = [];
+        for (const relation of rule.relations) {
+            const rows = await this.repositories
+                .create(relation.mapping)
+                .find(relation.where(parent));
+            if (rows.length === 0) continue;
+            dependents.push({
+                entity: relation.dependent,
+                policy: relation.policy,
+                count: rows.length,
+                ids: [...new Set(rows.map((r) => r.id))],
+            });
+        }
+        const impact: DeleteImpact = {
+            entity,
+            id,
+            dependents,
+            blocked: dependents.some((d) => d.policy === 'restrict'),
+            cascadesAt: rule.mapping.softDelete ? 'purge' : 'delete',
+        };
+        return {impact, parent};
+    }
+}
@@ -0,0 +1,339 @@
+import {
+    ConflictError,
+    LicenseViolationError,
+    NotFoundError,
+    ValidationError,
+} from '../errors';
+import {
+    EntityMapping,
+    Repository,
+    RepositoryFactory,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
+import {Account, accountMapping} from './accounts';
+import {Enterprise, enterpriseMapping} from './enterprises';
+import {Product, productMapping} from './products';
+import {Service, serviceMapping} from './services';
+import {UserRecord, userMapping} from './users';
+
+export const LICENSE_STATUSES = ['ACTIVE', 'SUSPENDED', 'CANCELLED'] as const;
+
+export type LicenseStatus = (typeof LICENSE_STATUSES)[number];
+
+// The services a license allows together with one product
+export interface Entitlement {
+    productId: number;
+    serviceIds: number[];
+}
+
+export interface License extends Versioned {
+    id: number;
+    accountId: number;
+    // What accounts have been recording as their bare licenseId
+    licenseKey: string;
+    status: LicenseStatus;
+    seats: number;
+    // YYYY-MM-DD, both days included; no endDate means open-ended
+    startDate: string;
+    endDate?: string | null;
+    // Enterprises whose linkages the entitlements govern
+    enterpriseIds: number[];
+    entitlements: Entitlement[];
+}
+
+export const licenseMapping: EntityMapping<License> = {
+    table: 'fnd_licenses',
+    schema: 'systiva',
+    file: 'licenses.json',
+    idColumn: 'license_id',
+    idStrategy: 'serial',
+    fields: {
+        accountId: 'account_id',
+        licenseKey: 'license_key',
+        status: 'status',
+        seats: 'seats',
+        startDate: 'start_date',
+        endDate: 'end_date',
+        enterpriseIds: {column: 'enterprise_ids', json: true},
+        entitlements: {column: 'entitlements', json: true},
+        ...VERSION_FIELDS,
+    },
+    orderBy: [{field: 'licenseKey'}],
+    search: ['licenseKey'],
+    indexes: ['accountId', 'licenseKey'],
+    versioned: true,
+};
+
+export type LicenseInput = Omit<License, 'id' | 'version'>;
+
+export interface SeatUsage {
+    accountId: number;
+    // Of the account's licenses in force today
+    seats: number;
+    // ACTIVE users of the account
+    used: number;
+    licenses: License[];
+}
+
+export interface ExpiringLicense extends License {
+    accountName: string | null;
+    daysLeft: number;
+}
+
+// What decides whether a user takes up a seat
+type SeatHolder = Pick<UserRecord, 'accountId' | 'status' | 'deletedAt'>;
+
+type Triple = {enterpriseId: number; productId: number; serviceId: number};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are compared as YYYY-MM-DD strings in UTC
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+    const time = Date.parse(`${date}T00:00:00Z`) + days * DAY_MS;
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+// ACTIVE, started and not yet ended on the given day
+export function inForce(license: License, on: string): boolean {
+    return (
+        license.status === 'ACTIVE' &&
+        license.startDate <= on &&
+        (!license.endDate || license.endDate >= on)
+    );
+}
+
+function holdsSeat(user: SeatHolder): boolean {
+    return (
+        user.accountId != null && user.status === 'ACTIVE' && !user.deletedAt
+    );
+}
+
+/**
+ * Licenses of accounts and what they allow: seats for the account's ACTIVE
+ * users and the product/service pairs the covered enterprises may be
+ * linked to. Only licenses in force count, but accounts and enterprises
+ * without any license at all are not limited, so data from before licenses
+ * were recorded keeps working.
+ */
+export class LicensesService {
+    private repo: Repository<License>;
+    private accounts: Repository<Account>;
+    private enterprises: Repository<Enterprise>;
+    private products: Repository<Product>;
+    private services: Repository<Service>;
+    private users: Repository<UserRecord>;
+
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(licenseMapping);
+        this.accounts = repositories.create(accountMapping);
+        this.enterprises = repositories.create(enterpriseMapping);
+        this.products = repositories.create(productMapping);
+        this.services = repositories.create(serviceMapping);
+        this.users = repositories.create(userMapping);
+    }
+
+    async list(accountId?: number): Promise<License[]> {
+        return accountId === undefined
+            ? this.repo.list()
+            : this.repo.find({accountId});
+    }
+
+    async get(id: number): Promise<License> {
+        const found = await this.repo.get(id);
+        if (!found) throw new NotFoundError('license', id);
+        return found;
+    }
+
+    async create(body: LicenseInput): Promise<License> {
+        const license = await this.checked(body);
+        await this.assertKeyFree(license.licenseKey);
+        return this.repo.create(license);
+    }
+
+    async update(
+        id: number,
+        body: LicenseInput,
+        options?: WriteOptions,
+    ): Promise<License> {
+        await this.get(id);
+        const license = await this.checked(body);
+        await this.assertKeyFree(license.licenseKey, id);
+        const updated = await this.repo.replace(id, license, options);
+        if (!updated) throw new NotFoundError('license', id);
+        return updated;
+    }
+
+    async remove(id: number): Promise<void> {
+        if (!(await this.repo.remove(id)))
+            throw new NotFoundError('license', id);
+    }
+
+    // Entitlements of one product are merged and every id has to exist
+    private async checked(body: LicenseInput): Promise<LicenseInput> {
+        const accountId = Number(body.accountId);
+        if (!(await this.accounts.get(accountId)))
+            throw new ValidationError('unknown account', {accountId});
+        if (body.endDate && body.endDate < body.startDate)
+            throw new ValidationError('endDate is before startDate', {
+                startDate: body.startDate,
+                endDate: body.endDate,
+            });
+        const byProduct = new Map<number, Set<number>>();
+        for (const {productId, serviceIds} of body.entitlements) {
+            const ids = byProduct.get(Number(productId)) ?? new Set();
+            for (const id of serviceIds) ids.add(Number(id));
+            byProduct.set(Number(productId), ids);
+        }
+        const entitlements = [...byProduct].map(([productId, ids]) => ({
+            productId,
+            serviceIds: [...ids].sort((a, b) => a - b),
+        }));
+        const enterpriseIds = [...new Set(body.enterpriseIds.map(Number))];
+        const serviceIds = new Set(entitlements.flatMap((e) => e.serviceIds));
+        const missing = {
+            enterpriseIds: await this.missing(this.enterprises, enterpriseIds),
+            productIds: await this.missing(this.products, [
+                ...byProduct.keys(),
+            ]),
+            serviceIds: await this.missing(this.services, [...serviceIds]),
+        };
+        if (Object.values(missing).some((ids) => ids.length > 0))
+            throw new ValidationError(
+                'unknown enterprises, products or services',
+                missing,
+            );
+        return {
+            accountId,
+            licenseKey: body.licenseKey,
+            status: body.status,
+            seats: Number(body.seats),
+            startDate: body.startDate,
+            endDate: body.endDate ?? null,
+            enterpriseIds,
+            entitlements,
+        };
+    }
+
+    private async missing<T extends {id: number}>(
+        repo: Repository<T>,
+        ids: number[],
+    ): Promise<number[]> {
+        const out: number[] = [];
+        for (const id of ids) if (!(await repo.get(id))) out.push(id);
+        return out;
+    }
+
+    private async assertKeyFree(licenseKey: string, exceptId?: number) {
+        const holder = await this.repo.findOne({licenseKey});
+        if (holder && holder.id !== exceptId)
+            throw new ConflictError('license key already exists', {
+                licenseKey,
+            });
+    }
+
+    /**
+     * Refuses linkages of enterprises some license covers unless a license
+     * in force covering the enterprise also entitles the product/service
+     * pair. Linkages that already exist are never checked again, so
+     * narrowing a license doesn't remove anything.
+     */
+    async assertEntitled(triples: Triple[]): Promise<void> {
+        const denied = await this.unentitled(triples);
+        if (denied.length > 0)
+            throw new LicenseViolationError(
+                'no license in force allows these linkages',
+                {linkages: denied},
+            );
+    }
+
+    // The triples assertEntitled refuses
+    async unentitled(triples: Triple[]): Promise<Triple[]> {
+        if (triples.length === 0) return [];
+        const licenses = await this.repo.list();
+        const on = today();
+        return triples.filter((t) => {
+            const covering = licenses.filter((l) =>
+                l.enterpriseIds.includes(t.enterpriseId),
+            );
+            return (
+                covering.length > 0 &&
+                !covering.some(
+                    (l) =>
+                        inForce(l, on) &&
+                        l.entitlements.some(
+                            (e) =>
+                                e.productId === t.productId &&
+                                e.serviceIds.includes(t.serviceId),
+                        ),
+                )
+            );
+        });
+    }
+
+    async usage(accountId: number): Promise<SeatUsage> {
+        if (!(await this.accounts.get(accountId)))
+            throw new NotFoundError('account', accountId);
+        const on = today();
+        const licenses = (await this.repo.find({accountId})).filter((l) =>
+            inForce(l, on),
+        );
+        const users = await this.users.find({accountId, status: 'ACTIVE'});
+        return {
+            accountId,
+            seats: licenses.reduce((sum, l) => sum + l.seats, 0),
+            used: users.length,
+            licenses,
+        };
+    }
+
+    /**
+     * Checks that `next` fits into its account's seats before a user is
+     * created, replaced or reactivated. A user that already held a seat of
+     * the same account as `previous` keeps it.
+     */
+    async assertSeat(next: SeatHolder, previous?: SeatHolder): Promise<void> {
+        if (!holdsSeat(next)) return;
+        const accountId = Number(next.accountId);
+        if (
+            previous &&
+            holdsSeat(previous) &&
+            Number(previous.accountId) === accountId
+        )
+            return;
+        if (!(await this.accounts.get(accountId)))
+            throw new ValidationError('unknown account', {accountId});
+        if (!(await this.repo.findOne({accountId}))) return;
+        const {seats, used} = await this.usage(accountId);
+        if (used >= seats)
+            throw new LicenseViolationError(
+                'the account has no free license seats',
+                {accountId, seats, used},
+            );
+    }
+
+    // ACTIVE licenses ending between today and `days` days from now,
+    // soonest first
+    async expiring(days: number): Promise<ExpiringLicense[]> {
+        const on = today();
+        const until = addDays(on, days);
+        const names = new Map(
+            (await this.accounts.list()).map((a) => [a.id, a.accountName]),
+        );
+        return (await this.repo.find({status: 'ACTIVE'}))
+            .filter((l) => l.endDate && l.endDate >= on && l.endDate <= until)
+            .sort((a, b) => a.endDate!.localeCompare(b.endDate!) || a.id - b.id)
+            .map((l) => ({
+                ...l,
+                accountName: names.get(l.accountId) ?? null,
+                daysLeft: Math.round(
+                    (Date.parse(l.endDate!) - Date.parse(on)) / DAY_MS,
+                ),
+            }));
+    }
+}
@@ -0,0 +1,128 @@
+import {AUTH} from '../config';
+import {EntityMapping, Repository, RepositoryFactory} from '../repositories';
+import {PasswordsService} from './passwords';
+import {UserRecord, UsersService} from './users';
+
+export interface LockEventRecord {
+    id: string;
+    userId: string;
+    action: 'lock' | 'unlock';
+    reason: string;
+    // Username of the admin, or null for automatic locks and unlocks
+    actor: string | null;
+    createdAt?: string;
+}
+
+export const lockEventMapping: EntityMapping<LockEventRecord> = {
+    table: 'user_lock_events',
+    schema: 'devops',
+    file: 'userLockEvents.json',
+    idColumn: 'event_id',
+    idStrategy: 'uuid',
+    fields: {
+        userId: 'user_id',
+        action: 'action',
+        reason: 'reason',
+        actor: 'actor',
+        createdAt: {column: 'created_at', timestamp: 'create'},
+    },
+    orderBy: [{field: 'createdAt', desc: true}],
+};
+
+// Locks users after repeated failed logins and keeps a history of every
+// lock and unlock, automatic or by an admin.
+export class LockoutService {
+    private events: Repository<LockEventRecord>;
+
+    constructor(
+        repositories: RepositoryFactory,
+        private readonly users: UsersService,
+        private readonly passwords: PasswordsService,
+    ) {
+        this.events = repositories.create(lockEventMapping);
+    }
+
+    async history(userId: string): Promise<LockEventRecord[]> {
+        return this.events.find({userId});
+    }
+
+    async lock(
+        user: UserRecord,
+        reason: string,
+        actor: string | null,
+        until: Date | null = null,
+    ): Promise<UserRecord> {
+        const updated = await this.users.partialUpdate(user.id, {
+            locked: true,
+            lockedUntil: until ? until.toISOString() : null,
+        });
+        await this.events.create({userId: user.id, action: 'lock', reason, actor});
+        return updated || user;
+    }
+
+    async unlock(
+        user: UserRecord,
+        reason: string,
+        actor: string | null,
+    ): Promise<UserRecord> {
+        const updated = await this.users.partialUpdate(user.id, {
+            locked: false,
+            lockedUntil: null,
+        });
+        await this.passwords.clearFailures(user.id);
+        await this.events.create({
+            userId: user.id,
+            action: 'unlock',
+            reason,
+            actor,
+        });
+        return updated || user;
+    }
+
+    // Lifts an automatic lock whose time is up; other users are returned as is
+    async releaseIfExpired(
+        user: UserRecord,
+        now = new Date(),
+    ): Promise<UserRecord> {
+        if (!user.locked || !user.lockedUntil) return user;
+        if (new Date(user.lockedUntil) > now) return user;
+        return this.unlock(user, 'lock period expired', null);
+    }
+
+    async releaseExpired(now = new Date()): Promise<number> {
+        let released = 0;
+        for (const user of await this.users.list()) {
+            const after = await this.releaseIfExpired(user, now);
+            if (after !== user) released++;
+        }
+        return released;
+    }
+
+    // Counts a failed login for a user who is not already locked
+    async registerFailure(
+        user: UserRecord,
+        now = new Date(),
+    ): Promise<UserRecord> {
+        if (user.locked || AUTH.maxFailedLogins <= 0) return user;
+        const failures = await this.passwords.recordFailure(
+            user.id,
+            AUTH.failedLoginWindow,
+            now,
+        );
+        if (failures < AUTH.maxFailedLogins) return user;
+        const until =
+            AUTH.lockDuration > 0
+                ? new Date(now.getTime() + AUTH.lockDuration * 1000)
+                : null;
+        return this.lock(
+            user,
+            `${failures} failed logins within ${AUTH.failedLoginWindow}s`,
+            null,
+            until,
+        );
+    }
+
+    async registerSuccess(user: UserRecord): Promise<void> {
+        await this.passwords.clearFailures(user.id);
+    }
+}
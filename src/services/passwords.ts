@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import {AUTH} from '../config';
+import {EntityMapping, Repository, RepositoryFactory} from '../repositories';
+
+export interface CredentialRecord {
+    id: string; // user id
+    hash: string;
+    // Earlier hashes, newest first
+    history: string[];
+    // Set by admin resets; login is refused until the user changes it
+    mustChange: boolean;
+    // Consecutive failed logins since failedSince
+    failedAttempts?: number;
+    failedSince?: string | null;
+    updatedAt?: string;
+}
+
+export const credentialMapping: EntityMapping<CredentialRecord> = {
+    table: 'user_credentials',
+    schema: 'devops',
+    file: 'credentials.json',
+    idColumn: 'user_id',
+    idStrategy: 'uuid',
+    fields: {
+        hash: 'password_hash',
+        history: 'password_history',
+        mustChange: 'must_change',
+        failedAttempts: 'failed_attempts',
+        failedSince: 'failed_since',
+        updatedAt: {column: 'updated_at', timestamp: 'update'},
+    },
+};
+
+const SCRYPT = {N: 16384, r: 8, p: 1, keyLength: 64};
+
+function scrypt(
+    password: string,
+    salt: Buffer,
+    params: {N: number; r: number; p: number; keyLength: number},
+): Promise<Buffer> {
+    return new Promise((resolve, reject) =>
+        crypto.scrypt(
+            password,
+            salt,
+            params.keyLength,
+            {N: params.N, r: params.r, p: params.p, maxmem: 64 * 1024 * 1024},
+            (err, key) => (err ? reject(err) : resolve(key)),
+        ),
+    );
+}
+
+// Encoded as scrypt$N$r$p$salt$hash so cost parameters can change later
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(password, salt, SCRYPT);
+    return [
+        'scrypt',
+        SCRYPT.N,
+        SCRYPT.r,
+        SCRYPT.p,
+        salt.toString('base64'),
+        key.toString('base64'),
+    ].join('$');
+}
+
+export async function verifyPassword(
+    password: string,
+    encoded: string,
+): Promise<boolean> {
+    const [scheme, N, r, p, salt, hash] = encoded.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), {
+        N: Number(N),
+        r: Number(r),
+        p: Number(p),
+        keyLength: expected.length,
+    });
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+export function meetsComplexity(password: string): boolean {
+    return /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[^\da-zA-Z]).{8,}$/.test(
+        password,
+    );
+}
+
+// Random password that satisfies meetsComplexity, for admin resets
+export function generateTemporaryPassword(): string {
+    return `${crypto.randomBytes(12).toString('base64url')}aA1!`;
+}
+
+export class PasswordsService {
+    private repo: Repository<CredentialRecord>;
+
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(credentialMapping);
+    }
+
+    /**
+     * Stores a new password unless it matches one of the last
+     * AUTH.passwordHistory passwords; returns an error message in that case.
+     */
+    async set(
+        userId: string,
+        password: string,
+        options: {mustChange?: boolean} = {},
+    ): Promise<string | null> {
+        const mustChange = options.mustChange ?? false;
+        const current = await this.repo.get(userId);
+        const hash = await hashPassword(password);
+        if (!current) {
+            await this.repo.create({
+                id: userId,
+                hash,
+                history: [],
+                mustChange,
+                failedAttempts: 0,
+            });
+            return null;
+        }
+        const recent = [current.hash, ...(current.history || [])].slice(
+            0,
+            Math.max(AUTH.passwordHistory, 1),
+        );
+        for (const previous of recent) {
+            if (await verifyPassword(password, previous)) {
+                return `password was used recently; choose one not among the last ${AUTH.passwordHistory}`;
+            }
+        }
+        await this.repo.update(userId, {
+            hash,
+            history: recent.slice(0, Math.max(AUTH.passwordHistory - 1, 0)),
+            mustChange,
+        });
+        return null;
+    }
+
+    async verify(userId: string, password: string): Promise<boolean> {
+        const record = await this.repo.get(userId);
+        if (!record) return false;
+        return verifyPassword(password, record.hash);
+    }
+
+    /**
+     * Counts a failed login and returns how many failures fall in the
+     * current window; the window restarts once windowSeconds have passed.
+     */
+    async recordFailure(
+        userId: string,
+        windowSeconds: number,
+        now = new Date(),
+    ): Promise<number> {
+        const record = await this.repo.get(userId);
+        if (!record) return 0;
+        const since = record.failedSince ? new Date(record.failedSince) : null;
+        const expired =
+            !since || now.getTime() - since.getTime() > windowSeconds * 1000;
+        const failedAttempts = expired ? 1 : (record.failedAttempts || 0) + 1;
+        await this.repo.update(userId, {
+            failedAttempts,
+            failedSince: expired ? now.toISOString() : record.failedSince,
+        });
+        return failedAttempts;
+    }
+
+    async clearFailures(userId: string): Promise<void> {
+        const record = await this.repo.get(userId);
+        if (!record?.failedAttempts) return;
+        await this.repo.update(userId, {failedAttempts: 0, failedSince: null});
+    }
+
+    // What the audit log shows of a user's credentials; never the hashes
+    async summary(
+        userId: string,
+    ): Promise<Pick<CredentialRecord, 'mustChange' | 'updatedAt'> | null> {
+        const record = await this.repo.get(userId);
+        if (!record) return null;
+        return {mustChange: record.mustChange, updatedAt: record.updatedAt};
+    }
+
+    async mustChange(userId: string): Promise<boolean> {
+        const record = await this.repo.get(userId);
+        return !!record?.mustChange;
+    }
+
+    // Self-service change; the current password must be supplied
+    async change(
+        userId: string,
+        currentPassword: string,
+        newPassword: string,
+    ): Promise<string | null> {
+        if (!(await this.verify(userId, currentPassword || '')))
+            return 'current password is incorrect';
+        if (!meetsComplexity(newPassword || ''))
+            return 'password does not meet complexity requirements';
+        return this.set(userId, newPassword, {mustChange: false});
+    }
+
+    // Admin reset: sets a temporary password that must be changed at next login
+    async reset(
+        userId: string,
+        password?: string,
+    ): Promise<{password: string} | {error: string}> {
+        const temporary = password || generateTemporaryPassword();
+        const error = await this.set(userId, temporary, {mustChange: true});
+        return error ? {error} : {password: temporary};
+    }
+
+    async remove(userId: string): Promise<void> {
+        await this.repo.remove(userId);
+    }
+}
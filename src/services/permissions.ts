@@ -0,0 +1,61 @@
+import {Grant, parsePermission} from '../auth/permissions';
+import {GroupsService} from './groups';
+import {UserGroupsService} from './userGroups';
+
+export interface PermissionSummary {
+    username: string;
+    // Permissions that apply everywhere
+    global: string[];
+    // Permissions that apply only to the keyed enterprise
+    enterprises: Record<string, string[]>;
+}
+
+// Derives a user's grants from the permissions of the groups they belong to
+export class PermissionsService {
+    constructor(
+        private readonly groups: GroupsService,
+        private readonly userGroups: UserGroupsService,
+    ) {}
+
+    async grantsFor(username: string | undefined): Promise<Grant[]> {
+        if (!username) return [];
+        const memberships = await this.userGroups.list(username);
+        if (memberships.length === 0) return [];
+        // Memberships of since-deleted groups grant nothing
+        const groups = new Map(
+            (await this.groups.list()).map((g) => [g.id, g]),
+        );
+        const grants: Grant[] = [];
+        for (const membership of memberships) {
+            const group = groups.get(membership.id);
+            for (const permission of group?.permissions || []) {
+                const parsed = parsePermission(permission);
+                if (!parsed) continue;
+                grants.push({
+                    ...parsed,
+                    enterprise: membership.enterprise
+                        ? String(membership.enterprise)
+                        : null,
+                });
+            }
+        }
+        return grants;
+    }
+
+    async summarize(username: string): Promise<PermissionSummary> {
+        const summary: PermissionSummary = {
+            username,
+            global: [],
+            enterprises: {},
+        };
+        for (const g of await this.grantsFor(username)) {
+            const permission = `${g.resource}:${g.action}`;
+            const bucket =
+                g.enterprise === null
+                    ? summary.global
+                    : (summary.enterprises[g.enterprise] ||= []);
+            if (!bucket.includes(permission)) bucket.push(permission);
+        }
+        return summary;
+    }
+}
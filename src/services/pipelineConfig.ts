@@ -1,72 +1,83 @@
-import {FsStore} from './fsStore';
-import {STORAGE_MODE} from '../config';
-import {withPg} from '../db';
+import {PreconditionFailedError} from '../errors';
+import {
+    EntityMapping,
+    Repository,
+    RepositoryFactory,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
 export type PipelineConfiguration = Record<string, any>;
 
+interface PipelineConfigRecord extends Versioned {
+    id: string;
+    config: PipelineConfiguration;
+    updatedAt?: string;
+}
+
+const SINGLETON_ID = 'singleton';
+
+export const pipelineConfigMapping: EntityMapping<PipelineConfigRecord> = {
+    table: 'pipeline_config',
+    schema: 'devops',
+    file: 'pipelineConfig.json',
+    idColumn: 'id',
+    idStrategy: 'uuid',
+    fields: {
+        config: {column: 'config', json: true},
+        updatedAt: {column: 'updated_at', timestamp: 'update'},
+        ...VERSION_FIELDS,
+    },
+    versioned: true,
+    // Older versions stored the bare config object at index 0
+    fromFile: (raw) => {
+        if (!Array.isArray(raw) || raw.length === 0) return [];
+        const first = raw[0];
+        if (first && first.id === SINGLETON_ID && 'config' in first)
+            return raw as PipelineConfigRecord[];
+        return [{id: SINGLETON_ID, config: first || {}}];
+    },
+};
+
 export class PipelineConfigService {
-    private store: FsStore<any>;
-    private readonly schema: string;
+    private repo: Repository<PipelineConfigRecord>;
 
-    constructor(dir: string) {
-        // Store as a single object inside an array, index 0
-        this.store = new FsStore<any>(dir, 'pipelineConfig.json');
-        this.schema = process.env.PGSCHEMA || 'devops';
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(pipelineConfigMapping);
     }
 
-    private async ensureTable(): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `create table if not exists ${this.schema}.pipeline_config (
-                    id text primary key,
-                    config jsonb not null default '{}'::jsonb,
-                    created_at timestamptz not null default now(),
-                    updated_at timestamptz not null default now()
-                )`,
-            );
-        });
+    async get(): Promise<PipelineConfiguration> {
+        const record = await this.repo.get(SINGLETON_ID);
+        return record?.config || ({} as PipelineConfiguration);
     }
 
-    async get(): Promise<PipelineConfiguration> {
-        if (STORAGE_MODE === 'postgres') {
-            await this.ensureTable();
-            const config = await withPg(async (c) => {
-                const res = await c.query(
-                    `select config from ${this.schema}.pipeline_config where id=$1`,
-                    ['singleton'],
-                );
-                return (
-                    (res.rows[0]?.config as PipelineConfiguration) ||
-                    ({} as PipelineConfiguration)
-                );
-            });
-            return config;
-        }
-        const all = this.store.readAll();
-        if (
-            Array.isArray(all) &&
-            all.length > 0 &&
-            typeof all[0] === 'object'
-        ) {
-            return all[0] as PipelineConfiguration;
-        }
-        return {} as PipelineConfiguration;
+    // The config is free-form, so its version is returned beside it (for
+    // the ETag) rather than inside it; null before the first save
+    async getVersioned(): Promise<{
+        config: PipelineConfiguration;
+        version: number | null;
+    }> {
+        const record = await this.repo.get(SINGLETON_ID);
+        return {
+            config: record?.config || ({} as PipelineConfiguration),
+            version: record?.version ?? null,
+        };
     }
 
-    async save(config: PipelineConfiguration): Promise<PipelineConfiguration> {
-        if (STORAGE_MODE === 'postgres') {
-            await this.ensureTable();
-            await withPg(async (c) => {
-                await c.query(
-                    `insert into ${this.schema}.pipeline_config(id, config)
-                     values('singleton', $1)
-                     on conflict (id) do update set config = excluded.config, updated_at = now()`,
-                    [config as any],
-                );
-            });
-            return config;
-        }
-        this.store.writeAll([config]);
-        return config;
+    // Returns the new version. With a version precondition the
+    // configuration has to be saved already; there is nothing to match yet
+    async save(
+        config: PipelineConfiguration,
+        options: WriteOptions = {},
+    ): Promise<number> {
+        const updated = await this.repo.update(SINGLETON_ID, {config}, options);
+        if (updated) return updated.version!;
+        if (options.expectedVersion !== undefined)
+            throw new PreconditionFailedError(
+                'the pipeline configuration has not been saved yet',
+                {expectedVersion: options.expectedVersion},
+            );
+        return (await this.repo.create({id: SINGLETON_ID, config})).version!;
     }
 }
@@ -1,85 +1,80 @@
-import {withPg} from '../db';
+import {NotFoundError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    ReadOptions,
+    Repository,
+    RepositoryFactory,
+    SOFT_DELETE_FIELDS,
+    SoftDeletable,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface Product {
+export interface Product extends SoftDeletable, Versioned {
     id: number;
     name: string;
 }
 
+export const productMapping: EntityMapping<Product> = {
+    table: 'fnd_products',
+    schema: 'systiva',
+    file: 'products.json',
+    idColumn: 'product_id',
+    idStrategy: 'serial',
+    fields: {name: 'product_name', ...SOFT_DELETE_FIELDS, ...VERSION_FIELDS},
+    orderBy: [{field: 'name'}],
+    search: ['name'],
+    softDelete: true,
+    versioned: true,
+    indexes: ['name'],
+};
+
 export class ProductsService {
-    private readonly schema: string;
+    private repo: Repository<Product>;
 
-    constructor(dir: string) {
-        this.schema = process.env.PGSCHEMA || 'systiva'; // Use systiva schema for existing tables
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(productMapping);
     }
 
-    async list(): Promise<Product[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    product_id as id,
-                    product_name as name
-                from ${this.schema}.fnd_products
-                order by product_name`,
-            );
-            return res.rows as Product[];
-        });
-        return rows;
+    async list(options?: ReadOptions): Promise<Product[]> {
+        return this.repo.list(options);
     }
 
-    async create(body: Omit<Product, 'id'>): Promise<Product> {
-        const created = await withPg(async (c) => {
-            const res = await c.query(
-                `insert into ${this.schema}.fnd_products(
-                    product_name
-                ) values($1)
-                returning product_id as id, product_name as name`,
-                [body.name],
-            );
-            return res.rows[0] as Product;
-        });
-        return created;
+    async page(query: PageQuery): Promise<Page<Product>> {
+        return this.repo.page(query);
     }
 
-    async update(id: number, body: Partial<Omit<Product, 'id'>>): Promise<Product | null> {
-        const updated = await withPg(async (c) => {
-            const setClauses: string[] = [];
-            const values: any[] = [id];
-            let paramIndex = 2;
-
-            if (body.name !== undefined) {
-                setClauses.push(`product_name = $${paramIndex++}`);
-                values.push(body.name);
-            }
+    async create(body: Omit<Product, 'id'>): Promise<Product> {
+        return this.repo.create({name: body.name});
+    }
 
-            const sql = `update ${this.schema}.fnd_products set ${setClauses.join(', ')} where product_id = $1 returning *`;
-            
-            const res = await c.query(sql, values);
-            return (res.rows[0] as Product) || null;
-        });
+    async update(
+        id: number,
+        body: Partial<Omit<Product, 'id'>>,
+        options?: WriteOptions,
+    ): Promise<Product> {
+        const updated = await this.repo.update(id, {name: body.name}, options);
+        if (!updated) throw new NotFoundError('product', id);
         return updated;
     }
 
-    async remove(id: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_products where product_id = $1`,
-                [id],
-            );
-        });
+    async remove(id: number, deletedBy: string | null = null): Promise<void> {
+        if (!(await this.repo.softRemove(id, deletedBy)))
+            throw new NotFoundError('product', id);
+    }
+
+    async restore(id: number): Promise<Product> {
+        const restored = await this.repo.restore(id);
+        if (!restored) throw new NotFoundError('deleted product', id);
+        return restored;
     }
 
-    async get(id: number): Promise<Product | null> {
-        const row = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    product_id as id,
-                    product_name as name
-                from ${this.schema}.fnd_products
-                where product_id = $1`,
-                [id],
-            );
-            return res.rows[0] as Product || null;
-        });
-        return row;
+    async get(id: number, options?: ReadOptions): Promise<Product> {
+        const found = await this.repo.get(id, options);
+        if (!found) throw new NotFoundError('product', id);
+        return found;
     }
 }
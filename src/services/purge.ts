@@ -0,0 +1,62 @@
+import {ForeignKeyViolationError} from '../errors';
+import {EntityId, RepositoryFactory, SoftDeletable} from '../repositories';
+import {DELETE_RULES, DeletableEntity, IntegrityService} from './integrity';
+
+// Entities whose deletes are soft; see the softDelete mapping option
+export const SOFT_DELETED_ENTITIES: DeletableEntity[] = [
+    'account',
+    'enterprise',
+    'product',
+    'service',
+    'template',
+    'user',
+];
+
+/**
+ * Hard-deletes records that were soft-deleted more than `retentionDays`
+ * ago, together with their cascading dependents. Records that gained a
+ * restricting dependent meanwhile are kept and retried on the next run.
+ */
+export class PurgeService {
+    constructor(
+        private readonly repositories: RepositoryFactory,
+        private readonly integrity: IntegrityService,
+        private readonly retentionDays: number,
+    ) {}
+
+    // Purged record count per entity
+    async purge(now = new Date()): Promise<Record<string, number>> {
+        const cutoff = now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000;
+        const purged: Record<string, number> = {};
+        for (const entity of SOFT_DELETED_ENTITIES) {
+            const repo = this.repositories.create<any>(
+                DELETE_RULES[entity].mapping,
+            );
+            purged[entity] = 0;
+            const rows: (SoftDeletable & {id: EntityId})[] = await repo.list({
+                includeDeleted: true,
+            });
+            const expired = rows.filter(
+                (r) => r.deletedAt && new Date(r.deletedAt).getTime() < cutoff,
+            );
+            for (const record of expired) {
+                try {
+                    // Dependents only go together with the record
+                    const removed = await this.repositories.transaction(
+                        async () => {
+                            await this.integrity.release(entity, record.id, {
+                                includeDeleted: true,
+                            });
+                            return repo.remove(record.id);
+                        },
+                    );
+                    if (removed) purged[entity]++;
+                } catch (error) {
+                    if (error instanceof ForeignKeyViolationError) continue;
+                    throw error;
+                }
+            }
+        }
+        return purged;
+    }
+}
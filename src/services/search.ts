@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import {withPg} from '../db';
+import {
+    EntityId,
+    EntityMapping,
+    RepositoryFactory,
+    columnOf,
+    getPath,
+} from '../repositories';
+import {accountMapping} from './accounts';
+import {enterpriseMapping} from './enterprises';
+import {productMapping} from './products';
+import {serviceMapping} from './services';
+import {templateMapping} from './templates';
+import {userMapping} from './users';
+
+export type SearchHitType =
+    | 'account'
+    | 'enterprise'
+    | 'product'
+    | 'service'
+    | 'user'
+    | 'template';
+
+export interface SearchHit {
+    type: SearchHitType;
+    id: EntityId;
+    title: string;
+    subtitle: string | null;
+    // Higher is better; only comparable within one response
+    score: number;
+}
+
+export interface SearchSource {
+    type: SearchHitType;
+    // Permission resource whose read access is needed to see these hits
+    resource: string;
+    mapping: EntityMapping<any>;
+    // Ranked above matches in `fields`
+    title: string;
+    subtitle?: string;
+    fields: string[];
+}
+
+// Must match the search_vector columns of migration 0008
+export const SEARCH_SOURCES: SearchSource[] = [
+    {
+        type: 'account',
+        resource: 'accounts',
+        mapping: accountMapping,
+        title: 'accountName',
+        subtitle: 'clientName',
+        fields: ['clientName', 'contactName', 'contactEmail'],
+    },
+    {
+        type: 'enterprise',
+        resource: 'enterprises',
+        mapping: enterpriseMapping,
+        title: 'name',
+        fields: [],
+    },
+    {
+        type: 'product',
+        resource: 'products',
+        mapping: productMapping,
+        title: 'name',
+        fields: [],
+    },
+    {
+        type: 'service',
+        resource: 'services',
+        mapping: serviceMapping,
+        title: 'name',
+        fields: [],
+    },
+    {
+        type: 'user',
+        resource: 'users',
+        mapping: userMapping,
+        title: 'username',
+        subtitle: 'email',
+        fields: ['firstName', 'lastName', 'email'],
+    },
+    {
+        type: 'template',
+        resource: 'templates',
+        mapping: templateMapping,
+        title: 'name',
+        subtitle: 'description',
+        fields: ['description'],
+    },
+];
+
+// ts_rank's default weights for 'A' and 'B'
+const TITLE_WEIGHT = 1.0;
+const FIELD_WEIGHT = 0.4;
+
+// Same split as the regexp_replace in migration 0008
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((t) => t !== '');
+}
+
+interface SearchIndex {
+    // Every term must match, as a prefix of some word of the record
+    search(
+        terms: string[],
+        sources: SearchSource[],
+        limit: number,
+    ): Promise<SearchHit[]>;
+}
+
+class PgSearchIndex implements SearchIndex {
+    async search(
+        terms: string[],
+        sources: SearchSource[],
+        limit: number,
+    ): Promise<SearchHit[]> {
+        const query = terms.map((t) => `${t}:*`).join(' & ');
+        const hits: SearchHit[] = [];
+        await withPg(async (c) => {
+            for (const source of sources) {
+                const {mapping} = source;
+                const schema = process.env.PGSCHEMA || mapping.schema;
+                const column = (field?: string) =>
+                    field ? columnOf(mapping.fields[field]).column : 'null';
+                const live = mapping.softDelete
+                    ? `and ${column('deletedAt')} is null`
+                    : '';
+                const res = await c.query(
+                    `select ${mapping.idColumn} as id,
+                            ${column(source.title)} as title,
+                            ${column(source.subtitle)} as subtitle,
+                            ts_rank(search_vector, q) as score
+                     from ${schema}.${mapping.table}, to_tsquery('simple', $1) q
+                     where search_vector @@ q ${live}
+                     order by score desc
+                     limit $2`,
+                    [query, limit],
+                );
+                for (const row of res.rows) {
+                    hits.push({
+                        type: source.type,
+                        id: row.id,
+                        title: row.title ?? '',
+                        subtitle: row.subtitle ?? null,
+                        score: Number(row.score),
+                    });
+                }
+            }
+        });
+        return hits;
+    }
+}
+
+interface SourceIndex {
+    // Hash of the rows the index was built from
+    fingerprint: string;
+    // word -> record id -> best weight of a field containing the word
+    words: Map<string, Map<EntityId, number>>;
+    records: Map<EntityId, {title: string; subtitle: string | null}>;
+}
+
+/**
+ * Inverted index over the JSON stores. Each source is re-indexed only when
+ * its rows have changed since the last search.
+ */
+class InProcessSearchIndex implements SearchIndex {
+    private indexes = new Map<SearchHitType, SourceIndex>();
+
+    constructor(private readonly repositories: RepositoryFactory) {}
+
+    async search(
+        terms: string[],
+        sources: SearchSource[],
+        limit: number,
+    ): Promise<SearchHit[]> {
+        const hits: SearchHit[] = [];
+        for (const source of sources) {
+            const index = await this.indexFor(source);
+            let scores: Map<EntityId, number> | null = null;
+            for (const term of terms) {
+                const matched = this.match(index, term);
+                if (scores === null) {
+                    scores = matched;
+                    continue;
+                }
+                for (const [id, score] of scores) {
+                    const more = matched.get(id);
+                    if (more === undefined) scores.delete(id);
+                    else scores.set(id, score + more);
+                }
+            }
+            const ranked = [...(scores || new Map<EntityId, number>())]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, limit);
+            for (const [id, score] of ranked) {
+                hits.push({
+                    type: source.type,
+                    id,
+                    ...index.records.get(id)!,
+                    score,
+                });
+            }
+        }
+        return hits;
+    }
+
+    // Whole-word matches count fully, prefix matches half
+    private match(index: SourceIndex, term: string): Map<EntityId, number> {
+        const out = new Map<EntityId, number>();
+        for (const [word, postings] of index.words) {
+            if (!word.startsWith(term)) continue;
+            const factor = word === term ? 1 : 0.5;
+            for (const [id, weight] of postings) {
+                out.set(id, Math.max(out.get(id) || 0, weight * factor));
+            }
+        }
+        return out;
+    }
+
+    private async indexFor(source: SearchSource): Promise<SourceIndex> {
+        const rows = await this.repositories.create(source.mapping).list();
+        const fingerprint = crypto
+            .createHash('md5')
+            .update(JSON.stringify(rows))
+            .digest('hex');
+        const cached = this.indexes.get(source.type);
+        if (cached && cached.fingerprint === fingerprint) return cached;
+
+        const index: SourceIndex = {
+            fingerprint,
+            words: new Map(),
+            records: new Map(),
+        };
+        const add = (id: EntityId, value: unknown, weight: number) => {
+            if (value == null) return;
+            for (const word of tokenize(String(value))) {
+                let postings = index.words.get(word);
+                if (!postings) index.words.set(word, (postings = new Map()));
+                postings.set(id, Math.max(postings.get(id) || 0, weight));
+            }
+        };
+        for (const row of rows) {
+            add(row.id, getPath(row, source.title), TITLE_WEIGHT);
+            for (const field of source.fields) {
+                add(row.id, getPath(row, field), FIELD_WEIGHT);
+            }
+            const subtitle = source.subtitle
+                ? getPath(row, source.subtitle)
+                : null;
+            index.records.set(row.id, {
+                title: String(getPath(row, source.title) ?? ''),
+                subtitle: subtitle == null ? null : String(subtitle),
+            });
+        }
+        this.indexes.set(source.type, index);
+        return index;
+    }
+}
+
+export interface SearchOptions {
+    // Restrict to these types; defaults to all of them
+    types?: SearchHitType[];
+    limit?: number;
+}
+
+export class SearchService {
+    private index: SearchIndex;
+
+    constructor(repositories: RepositoryFactory) {
+        this.index =
+            repositories.kind === 'postgres'
+                ? new PgSearchIndex()
+                : new InProcessSearchIndex(repositories);
+    }
+
+    // Best hits first across all requested types
+    async search(q: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+        const terms = [...new Set(tokenize(q))];
+        const limit = options.limit || 20;
+        const sources = SEARCH_SOURCES.filter(
+            (s) => !options.types || options.types.includes(s.type),
+        );
+        if (terms.length === 0 || sources.length === 0) return [];
+        const hits = await this.index.search(terms, sources, limit);
+        return hits
+            .sort(
+                (a, b) =>
+                    b.score - a.score ||
+                    a.type.localeCompare(b.type) ||
+                    a.title.localeCompare(b.title),
+            )
+            .slice(0, limit);
+    }
+}
@@ -1,105 +1,92 @@
-import {withPg} from '../db';
+import {NotFoundError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    ReadOptions,
+    Repository,
+    RepositoryFactory,
+    SOFT_DELETE_FIELDS,
+    SoftDeletable,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface Service {
+export interface Service extends SoftDeletable, Versioned {
     id: number;
     name: string;
 }
 
+export const serviceMapping: EntityMapping<Service> = {
+    table: 'fnd_services',
+    schema: 'systiva',
+    file: 'services.json',
+    idColumn: 'service_id',
+    idStrategy: 'serial',
+    fields: {name: 'service_name', ...SOFT_DELETE_FIELDS, ...VERSION_FIELDS},
+    orderBy: [{field: 'name'}],
+    search: ['name'],
+    softDelete: true,
+    versioned: true,
+    indexes: ['name'],
+};
+
 export class ServicesService {
-    private readonly schema: string;
+    private repo: Repository<Service>;
+
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(serviceMapping);
+    }
 
-    constructor(dir: string) {
-        this.schema = process.env.PGSCHEMA || 'systiva'; // Use systiva schema for existing tables
+    async list(options?: ReadOptions): Promise<Service[]> {
+        return this.repo.list(options);
     }
 
-    async list(): Promise<Service[]> {
-        const rows = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    service_id as id,
-                    service_name as name
-                from ${this.schema}.fnd_services
-                order by service_name`,
-            );
-            return res.rows as Service[];
-        });
-        return rows;
+    async page(query: PageQuery): Promise<Page<Service>> {
+        return this.repo.page(query);
     }
 
     async create(body: Omit<Service, 'id'>): Promise<Service> {
         console.log('ServicesService.create called with body:', body);
-        
-        console.log('Service data to insert:', body);
-        
-        const created = await withPg(async (c) => {
-            const res = await c.query(
-                `insert into ${this.schema}.fnd_services(
-                    service_name
-                ) values($1)
-                returning service_id as id, service_name as name`,
-                [body.name],
-            );
-            console.log('Insert result:', res.rows[0]);
-            return res.rows[0] as Service;
-        });
-        
+        const created = await this.repo.create({name: body.name});
         console.log('Created service:', created);
         return created;
     }
 
-    async update(id: number, body: Partial<Omit<Service, 'id'>>): Promise<Service | null> {
-        const updated = await withPg(async (c) => {
-            const setClauses: string[] = [];
-            const values: any[] = [id];
-            let paramIndex = 2;
-
-            if (body.name !== undefined) {
-                setClauses.push(`service_name = $${paramIndex++}`);
-                values.push(body.name);
-            }
-
-            const sql = `update ${this.schema}.fnd_services set ${setClauses.join(', ')} where service_id = $1 returning *`;
-            
-            const res = await c.query(sql, values);
-            return (res.rows[0] as Service) || null;
-        });
+    async update(
+        id: number,
+        body: Partial<Omit<Service, 'id'>>,
+        options?: WriteOptions,
+    ): Promise<Service> {
+        const updated = await this.repo.update(id, {name: body.name}, options);
+        if (!updated) throw new NotFoundError('service', id);
         return updated;
     }
 
-    async remove(id: number): Promise<void> {
-        await withPg(async (c) => {
-            await c.query(
-                `delete from ${this.schema}.fnd_services where service_id = $1`,
-                [id],
-            );
-        });
+    async remove(id: number, deletedBy: string | null = null): Promise<void> {
+        if (!(await this.repo.softRemove(id, deletedBy)))
+            throw new NotFoundError('service', id);
+    }
+
+    async restore(id: number): Promise<Service> {
+        const restored = await this.repo.restore(id);
+        if (!restored) throw new NotFoundError('deleted service', id);
+        return restored;
     }
 
-    async get(id: number): Promise<Service | null> {
-        const row = await withPg(async (c) => {
-            const res = await c.query(
-                `select
-                    service_id as id,
-                    service_name as name
-                from ${this.schema}.fnd_services
-                where service_id = $1`,
-                [id],
-            );
-            return res.rows[0] as Service || null;
-        });
-        return row;
+    async get(id: number, options?: ReadOptions): Promise<Service> {
+        const found = await this.repo.get(id, options);
+        if (!found) throw new NotFoundError('service', id);
+        return found;
     }
 
     async debugTableContents(): Promise<any> {
-        const result = await withPg(async (c) => {
-            const res = await c.query(
-                `select count(*) as total_count, 
-                        array_agg(service_name) as names,
-                        array_agg(service_id) as ids
-                from ${this.schema}.fnd_services`
-            );
-            return res.rows[0];
-        });
-        return result;
+        const all = await this.repo.list();
+        return {
+            total_count: String(all.length),
+            names: all.map((s) => s.name),
+            ids: all.map((s) => s.id),
+        };
     }
 }
@@ -0,0 +1,751 @@
+import {ConflictError, NotFoundError, ValidationError} from '../errors';
+import {
+    EntityId,
+    NewEntity,
+    Repository,
+    RepositoryFactory,
+    getPath,
+} from '../repositories';
+import {Account, accountMapping} from './accounts';
+import {BUSetting, businessUnitMapping} from './businessUnits';
+import {
+    EnterpriseProductService,
+    EnterpriseProductsServicesService,
+    enterpriseProductServiceMapping,
+} from './enterpriseProductsServices';
+import {Enterprise, enterpriseMapping} from './enterprises';
+import {
+    GlobalSettingRecord,
+    globalSettingMapping,
+    normalizeCategories,
+} from './globalSettings';
+import {GroupMasterRecord, groupMapping} from './groups';
+import {PipelineYamlRecord, pipelineYamlMapping} from './pipelineYaml';
+import {Product, productMapping} from './products';
+import {Service, serviceMapping} from './services';
+import {TemplateRecord, templateMapping} from './templates';
+import {GroupRecord, userGroupMapping} from './userGroups';
+import {UserRecord, userMapping} from './users';
+
+export const SNAPSHOT_FORMAT = 'tenant-snapshot';
+// Bump when the bundle layout changes; restores accept this and older ones
+export const SNAPSHOT_VERSION = 1;
+
+// Product and service names identify them in the other instance
+export interface SnapshotLinkage {
+    id: number;
+    productId: number;
+    productName: string;
+    serviceId: number;
+    serviceName: string;
+}
+
+/**
+ * Everything one account/enterprise pair owns. Records keep the ids of the
+ * instance they came from; restores map them to ids of their own. Versions
+ * and soft-delete fields are left out.
+ */
+export interface TenantSnapshot {
+    format: typeof SNAPSHOT_FORMAT;
+    version: number;
+    exportedAt: string;
+    account: Account;
+    enterprise: Enterprise;
+    businessUnits: BUSetting[];
+    globalSettings: GlobalSettingRecord[];
+    linkages: SnapshotLinkage[];
+    templates: TemplateRecord[];
+    pipelineYamls: PipelineYamlRecord[];
+    userGroups: GroupRecord[];
+}
+
+// reuse: an equal record already exists and is used as is. conflict: the
+// existing record differs and was kept, or the item could not be restored
+// at all (then targetId is null)
+export type RestoreAction = 'create' | 'reuse' | 'conflict';
+
+export interface RestoreItem {
+    entity: string;
+    sourceId: EntityId;
+    // null for new records in a dry run
+    targetId: EntityId | null;
+    action: RestoreAction;
+    reason?: string;
+}
+
+export interface RestoreOptions {
+    dryRun?: boolean;
+    // Existing account and enterprise to restore into, instead of the ones
+    // named like the snapshot's
+    accountId?: number;
+    enterpriseId?: number;
+    // Go ahead although the tenant found by name differs from the snapshot
+    acknowledgeConflicts?: boolean;
+    // The caller may give users groups (users:admin); otherwise the
+    // bundle's user groups are reported as conflicts for an admin
+    assignGroups?: boolean;
+}
+
+export interface RestoreReport {
+    dryRun: boolean;
+    created: number;
+    reused: number;
+    conflicts: number;
+    items: RestoreItem[];
+}
+
+const ACCOUNT_FIELDS = [
+    'clientId',
+    'clientName',
+    'contactName',
+    'contactTitle',
+    'contactEmail',
+    'contactPhone',
+    'licenseId',
+];
+const TEMPLATE_FIELDS = [
+    'description',
+    'details.entity',
+    'deploymentType',
+    'status',
+    'flowTemplateId',
+];
+const SNAPSHOT_LISTS = [
+    'businessUnits',
+    'globalSettings',
+    'linkages',
+    'templates',
+    'pipelineYamls',
+    'userGroups',
+] as const;
+
+function portable<T extends object>(record: T): T {
+    const {version, deletedAt, deletedBy, ...rest} = record as any;
+    return rest;
+}
+
+function blank(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+}
+
+// Fields whose values differ; blank values all count as the same
+function differences(a: any, b: any, fields: string[]): string[] {
+    return fields.filter((field) => {
+        const x = getPath(a, field);
+        const y = getPath(b, field);
+        if (blank(x) || blank(y)) return blank(x) !== blank(y);
+        return JSON.stringify(x) !== JSON.stringify(y);
+    });
+}
+
+function sameSet(a: string[] = [], b: string[] = []): boolean {
+    return JSON.stringify([...a].sort()) === JSON.stringify([...b].sort());
+}
+
+// Existing records a restore was pointed at by id
+interface Target {
+    account: Account | null;
+    enterprise: Enterprise | null;
+}
+
+// Refuses a restore into an account or enterprise found by name when the
+// preview has conflicts
+function assertUnambiguous(preview: RestoreRun, target: Target) {
+    const matchedByName = preview.items.some(
+        (i) =>
+            i.action !== 'create' &&
+            ((i.entity === 'account' && !target.account) ||
+                (i.entity === 'enterprise' && !target.enterprise)),
+    );
+    const conflicts = preview.items.filter((i) => i.action === 'conflict');
+    if (matchedByName && conflicts.length > 0)
+        throw new ConflictError(
+            'the tenant already exists and differs from the snapshot; ' +
+                'pass accountId and enterpriseId or acknowledgeConflicts=true',
+            {conflicts},
+        );
+}
+
+// Collects the report of one restore; `dryRun` only decides whether
+// records are really created
+class RestoreRun {
+    readonly items: RestoreItem[] = [];
+
+    constructor(readonly dryRun: boolean) {}
+
+    async create<T extends {id: EntityId}>(
+        entity: string,
+        sourceId: EntityId,
+        write: () => Promise<T>,
+    ): Promise<EntityId | null> {
+        const targetId = this.dryRun ? null : (await write()).id;
+        this.items.push({entity, sourceId, targetId, action: 'create'});
+        return targetId;
+    }
+
+    // An existing record stands in for the snapshot's one; differing
+    // fields make it a conflict
+    reuse(
+        entity: string,
+        sourceId: EntityId,
+        targetId: EntityId,
+        differing: string[] = [],
+    ): EntityId {
+        if (differing.length === 0)
+            this.items.push({entity, sourceId, targetId, action: 'reuse'});
+        else
+            this.conflict(
+                entity,
+                sourceId,
+                targetId,
+                `existing record differs in ${differing.join(', ')}`,
+            );
+        return targetId;
+    }
+
+    // The existing record is kept as it is
+    conflict(
+        entity: string,
+        sourceId: EntityId,
+        targetId: EntityId | null,
+        reason: string,
+    ) {
+        this.items.push({
+            entity,
+            sourceId,
+            targetId,
+            action: 'conflict',
+            reason,
+        });
+    }
+
+    skip(entity: string, sourceId: EntityId, reason: string) {
+        this.conflict(entity, sourceId, null, reason);
+    }
+
+    report(): RestoreReport {
+        const count = (action: RestoreAction) =>
+            this.items.filter((i) => i.action === action).length;
+        return {
+            dryRun: this.dryRun,
+            created: count('create'),
+            reused: count('reuse'),
+            conflicts: count('conflict'),
+            items: this.items,
+        };
+    }
+}
+
+/**
+ * Copies a tenant's configuration between instances. Restores never
+ * overwrite: records are matched by natural key (account and enterprise
+ * name, template name, ...) and reused, created when missing, and any
+ * mismatch is reported as a conflict. Restoring into a tenant that was
+ * only found by name and differs from the snapshot is refused unless the
+ * caller names the target or acknowledges the conflicts.
+ */
+export class SnapshotsService {
+    private accounts: Repository<Account>;
+    private enterprises: Repository<Enterprise>;
+    private businessUnits: Repository<BUSetting>;
+    private globalSettings: Repository<GlobalSettingRecord>;
+    private linkages: Repository<EnterpriseProductService>;
+    private products: Repository<Product>;
+    private services: Repository<Service>;
+    private templates: Repository<TemplateRecord>;
+    private yamls: Repository<PipelineYamlRecord>;
+    private userGroups: Repository<GroupRecord>;
+    private groups: Repository<GroupMasterRecord>;
+    private users: Repository<UserRecord>;
+
+    constructor(
+        private readonly repositories: RepositoryFactory,
+        // Linkages are created through their service, like single ones
+        private readonly linkageService: EnterpriseProductsServicesService,
+    ) {
+        this.accounts = repositories.create(accountMapping);
+        this.enterprises = repositories.create(enterpriseMapping);
+        this.businessUnits = repositories.create(businessUnitMapping);
+        this.globalSettings = repositories.create(globalSettingMapping);
+        this.linkages = repositories.create(enterpriseProductServiceMapping);
+        this.products = repositories.create(productMapping);
+        this.services = repositories.create(serviceMapping);
+        this.templates = repositories.create(templateMapping);
+        this.yamls = repositories.create(pipelineYamlMapping);
+        this.userGroups = repositories.create(userGroupMapping);
+        this.groups = repositories.create(groupMapping);
+        this.users = repositories.create(userMapping);
+    }
+
+    async export(
+        accountId: number,
+        enterpriseId: number,
+    ): Promise<TenantSnapshot> {
+        const account = await this.accounts.get(accountId);
+        if (!account) throw new NotFoundError('account', accountId);
+        const enterprise = await this.enterprises.get(enterpriseId);
+        if (!enterprise) throw new NotFoundError('enterprise', enterpriseId);
+
+        const settings = await this.globalSettings.find({
+            accountId: String(account.id),
+        });
+        const links = await this.linkages.find({enterpriseId: enterprise.id});
+        const linkages: SnapshotLinkage[] = [];
+        for (const l of links) {
+            const product = await this.products.get(l.productId);
+            const service = await this.services.get(l.serviceId);
+            if (!product || !service) continue;
+            linkages.push({
+                id: l.id,
+                productId: product.id,
+                productName: product.name,
+                serviceId: service.id,
+                serviceName: service.name,
+            });
+        }
+        const templates = await this.templates.find({
+            'details.enterprise': enterprise.name,
+        });
+        const pipelineYamls: PipelineYamlRecord[] = [];
+        for (const t of templates) {
+            const yaml = await this.yamls.get(t.id);
+            if (yaml) pipelineYamls.push(portable(yaml));
+        }
+        return {
+            format: SNAPSHOT_FORMAT,
+            version: SNAPSHOT_VERSION,
+            exportedAt: new Date().toISOString(),
+            account: portable(account),
+            enterprise: portable(enterprise),
+            businessUnits: (
+                await this.businessUnits.find({
+                    enterpriseId: String(enterprise.id),
+                })
+            ).map(portable),
+            // The account-wide settings and the enterprise's own
+            globalSettings: settings
+                .filter(
+                    (s) =>
+                        !s.enterpriseId ||
+                        s.enterpriseId === String(enterprise.id),
+                )
+                .map(portable),
+            linkages,
+            templates: templates.map(portable),
+            pipelineYamls,
+            userGroups: await this.userGroups.find({
+                enterprise: String(enterprise.id),
+            }),
+        };
+    }
+
+    /**
+     * Restores a bundle from export() in one transaction (in postgres
+     * mode). A dry run reports what would happen without writing; every
+     * restore starts with one to decide whether it may go ahead.
+     */
+    async restore(
+        input: unknown,
+        options: RestoreOptions = {},
+    ): Promise<RestoreReport> {
+        const snapshot = this.checkSnapshot(input);
+        const target = await this.checkTarget(options);
+        const preview = new RestoreRun(true);
+        const assignGroups = options.assignGroups ?? false;
+        await this.apply(snapshot, target, assignGroups, preview);
+        if (options.dryRun) return preview.report();
+        if (!options.acknowledgeConflicts) assertUnambiguous(preview, target);
+        const run = new RestoreRun(false);
+        await this.repositories.transaction(() =>
+            this.apply(snapshot, target, assignGroups, run),
+        );
+        return run.report();
+    }
+
+    // The existing account and enterprise restore() would use, or null
+    // when either would be created
+    async locate(
+        input: unknown,
+        options: RestoreOptions = {},
+    ): Promise<{accountId: EntityId; enterpriseId: EntityId} | null> {
+        const snapshot = this.checkSnapshot(input);
+        const target = await this.checkTarget(options);
+        const account =
+            target.account ??
+            (await this.accounts.findOne({
+                accountName: snapshot.account.accountName,
+            }));
+        const enterprise =
+            target.enterprise ??
+            (await this.enterprises.findOne({name: snapshot.enterprise.name}));
+        if (!account || !enterprise) return null;
+        return {accountId: account.id, enterpriseId: enterprise.id};
+    }
+
+    private async checkTarget(options: RestoreOptions): Promise<Target> {
+        const target: Target = {account: null, enterprise: null};
+        if (options.accountId !== undefined) {
+            target.account = await this.accounts.get(options.accountId);
+            if (!target.account)
+                throw new NotFoundError('account', options.accountId);
+        }
+        if (options.enterpriseId !== undefined) {
+            target.enterprise = await this.enterprises.get(
+                options.enterpriseId,
+            );
+            if (!target.enterprise)
+                throw new NotFoundError('enterprise', options.enterpriseId);
+        }
+        return target;
+    }
+
+    private checkSnapshot(input: unknown): TenantSnapshot {
+        const s = input as TenantSnapshot;
+        if (!s || typeof s !== 'object' || s.format !== SNAPSHOT_FORMAT)
+            throw new ValidationError(`not a ${SNAPSHOT_FORMAT} bundle`);
+        if (
+            !Number.isInteger(s.version) ||
+            s.version < 1 ||
+            s.version > SNAPSHOT_VERSION
+        )
+            throw new ValidationError(
+                `unsupported snapshot version ${s.version}`,
+                {version: s.version, supported: SNAPSHOT_VERSION},
+            );
+        if (typeof s.account?.accountName !== 'string')
+            throw new ValidationError('snapshot account has no accountName');
+        if (typeof s.enterprise?.name !== 'string')
+            throw new ValidationError('snapshot enterprise has no name');
+        for (const list of SNAPSHOT_LISTS) {
+            if (s[list] === undefined) (s as any)[list] = [];
+            if (!Array.isArray(s[list]))
+                throw new ValidationError(`snapshot ${list} must be a list`);
+        }
+        return s;
+    }
+
+    private async apply(
+        snapshot: TenantSnapshot,
+        target: Target,
+        assignGroups: boolean,
+        run: RestoreRun,
+    ): Promise<void> {
+        const accountId = await this.restoreAccount(
+            snapshot.account,
+            target.account,
+            run,
+        );
+        const enterpriseId = await this.restoreEnterprise(
+            snapshot.enterprise,
+            target.enterprise,
+            run,
+        );
+        const ids = {account: accountId, enterprise: enterpriseId};
+        // Records naming the tenant follow the target's names
+        const s: TenantSnapshot = {
+            ...snapshot,
+            account: target.account
+                ? {...snapshot.account, accountName: target.account.accountName}
+                : snapshot.account,
+            enterprise: target.enterprise
+                ? {...snapshot.enterprise, name: target.enterprise.name}
+                : snapshot.enterprise,
+        };
+
+        for (const bu of s.businessUnits) {
+            // clientId holds the account id when the unit was made for it
+            const clientId =
+                bu.clientId === String(s.account.id)
+                    ? String(accountId ?? '')
+                    : bu.clientId;
+            const existing =
+                enterpriseId === null
+                    ? undefined
+                    : (
+                          await this.businessUnits.find({
+                              enterpriseId: String(enterpriseId),
+                          })
+                      ).find(
+                          (b) =>
+                              b.clientId === clientId &&
+                              sameSet(b.entities, bu.entities),
+                      );
+            if (existing) run.reuse('business unit', bu.id, existing.id);
+            else
+                await run.create('business unit', bu.id, () =>
+                    this.businessUnits.create({
+                        clientId,
+                        enterpriseId: String(enterpriseId),
+                        entities: bu.entities || [],
+                        createdBy: bu.createdBy,
+                        lastUpdatedBy: bu.lastUpdatedBy,
+                    }),
+                );
+        }
+
+        for (const gs of s.globalSettings) {
+            await this.restoreGlobalSetting(s, gs, ids, run);
+        }
+        for (const link of s.linkages) {
+            await this.restoreLinkage(link, enterpriseId, run);
+        }
+
+        const templateIds = new Map<EntityId, EntityId | null>();
+        for (const t of s.templates) {
+            templateIds.set(t.id, await this.restoreTemplate(s, t, run));
+        }
+        for (const y of s.pipelineYamls) {
+            if (!templateIds.has(y.id)) {
+                run.skip('pipeline yaml', y.id, 'template not in the bundle');
+                continue;
+            }
+            const templateId = templateIds.get(y.id)!;
+            const existing =
+                templateId === null
+                    ? null
+                    : await this.yamls.get(String(templateId));
+            if (existing)
+                run.reuse(
+                    'pipeline yaml',
+                    y.id,
+                    templateId!,
+                    existing.yaml === y.yaml ? [] : ['yaml'],
+                );
+            else
+                await run.create('pipeline yaml', y.id, () =>
+                    this.yamls.create({id: String(templateId), yaml: y.yaml}),
+                );
+        }
+
+        for (const ug of s.userGroups) {
+            await this.restoreUserGroup(ug, enterpriseId, assignGroups, run);
+        }
+    }
+
+    private async restoreAccount(
+        a: Account,
+        target: Account | null,
+        run: RestoreRun,
+    ): Promise<EntityId | null> {
+        const existing =
+            target ??
+            (await this.accounts.findOne({accountName: a.accountName}));
+        if (existing)
+            return run.reuse(
+                'account',
+                a.id,
+                existing.id,
+                differences(a, existing, ['accountName', ...ACCOUNT_FIELDS]),
+            );
+        const fields = Object.fromEntries(
+            ACCOUNT_FIELDS.map((f) => [f, (a as any)[f]]),
+        );
+        return run.create('account', a.id, () =>
+            this.accounts.create({accountName: a.accountName, ...fields}),
+        );
+    }
+
+    private async restoreEnterprise(
+        e: Enterprise,
+        target: Enterprise | null,
+        run: RestoreRun,
+    ): Promise<EntityId | null> {
+        const existing =
+            target ?? (await this.enterprises.findOne({name: e.name}));
+        if (existing)
+            return run.reuse(
+                'enterprise',
+                e.id,
+                existing.id,
+                differences(e, existing, ['name']),
+            );
+        return run.create('enterprise', e.id, () =>
+            this.enterprises.create({name: e.name}),
+        );
+    }
+
+    private async restoreGlobalSetting(
+        s: TenantSnapshot,
+        gs: GlobalSettingRecord,
+        ids: {account: EntityId | null; enterprise: EntityId | null},
+        run: RestoreRun,
+    ) {
+        const normalized = normalizeCategories(gs.categories);
+        if ('error' in normalized) {
+            run.skip('global setting', gs.id, normalized.error);
+            return;
+        }
+        const enterpriseId = gs.enterpriseId
+            ? String(ids.enterprise ?? '')
+            : null;
+        const existing =
+            ids.account === null ||
+            (enterpriseId !== null && ids.enterprise === null)
+                ? null
+                : await this.globalSettings.findOne({
+                      accountId: String(ids.account),
+                      enterpriseId,
+                  });
+        const record = {
+            entities: gs.entities || [],
+            categories: normalized.categories,
+        };
+        if (existing) {
+            run.reuse(
+                'global setting',
+                gs.id,
+                existing.id,
+                differences(record, existing, ['entities', 'categories']),
+            );
+            return;
+        }
+        await run.create('global setting', gs.id, () =>
+            this.globalSettings.create({
+                accountId: String(ids.account),
+                accountName: s.account.accountName,
+                enterpriseId: enterpriseId ?? undefined,
+                enterpriseName: enterpriseId ? s.enterprise.name : '',
+                ...record,
+            }),
+        );
+    }
+
+    private async restoreLinkage(
+        link: SnapshotLinkage,
+        enterpriseId: EntityId | null,
+        run: RestoreRun,
+    ) {
+        const productId = await this.restoreNamed(
+            'product',
+            this.products,
+            link.productId,
+            link.productName,
+            run,
+        );
+        const serviceId = await this.restoreNamed(
+            'service',
+            this.services,
+            link.serviceId,
+            link.serviceName,
+            run,
+        );
+        const triple = {
+            enterpriseId: Number(enterpriseId),
+            productId: Number(productId),
+            serviceId: Number(serviceId),
+        };
+        const existing =
+            enterpriseId === null || productId === null || serviceId === null
+                ? null
+                : await this.linkages.findOne(triple);
+        if (existing) run.reuse('linkage', link.id, existing.id);
+        else
+            await run.create('linkage', link.id, () =>
+                this.linkageService.create(triple),
+            );
+    }
+
+    // Products and services are shared by every tenant: the one with the
+    // same name is used, or created once
+    private async restoreNamed(
+        entity: string,
+        repo: Repository<Product> | Repository<Service>,
+        sourceId: number,
+        name: string,
+        run: RestoreRun,
+    ): Promise<EntityId | null> {
+        const done = run.items.find(
+            (i) => i.entity === entity && i.sourceId === sourceId,
+        );
+        if (done) return done.targetId;
+        const existing = await repo.findOne({name});
+        if (existing) return run.reuse(entity, sourceId, existing.id);
+        return run.create(entity, sourceId, () => repo.create({name}));
+    }
+
+    private async restoreTemplate(
+        s: TenantSnapshot,
+        t: TemplateRecord,
+        run: RestoreRun,
+    ): Promise<EntityId | null> {
+        const existing = await this.templates.findOne({
+            name: t.name,
+            'details.enterprise': s.enterprise.name,
+        });
+        if (existing)
+            return run.reuse(
+                'template',
+                t.id,
+                existing.id,
+                differences(t, existing, TEMPLATE_FIELDS),
+            );
+        // A fresh id, so it can't collide with another tenant's template
+        const {id, creationDate, ...rest} = portable(t);
+        return run.create('template', t.id, () =>
+            this.templates.create({
+                ...rest,
+                details: {...t.details, enterprise: s.enterprise.name},
+            } as NewEntity<TemplateRecord>),
+        );
+    }
+
+    // Users and groups aren't part of the bundle; the assignment is only
+    // restored when both exist here under the same names
+    private async restoreUserGroup(
+        ug: GroupRecord,
+        enterpriseId: EntityId | null,
+        assignGroups: boolean,
+        run: RestoreRun,
+    ) {
+        const source = `${ug.username}/${ug.id}`;
+        const group = await this.groups.findOne({name: ug.name});
+        if (!group) {
+            run.skip('user group', source, `no group named ${ug.name}`);
+            return;
+        }
+        if (!(await this.users.findOne({username: ug.username}))) {
+            run.skip('user group', source, `no user named ${ug.username}`);
+            return;
+        }
+        const existing = await this.userGroups.findOne({
+            username: ug.username,
+            id: group.id,
+        });
+        if (existing) {
+            const targetId = `${ug.username}/${group.id}`;
+            if (
+                enterpriseId !== null &&
+                existing.enterprise === String(enterpriseId)
+            )
+                run.reuse('user group', source, targetId);
+            else
+                run.conflict(
+                    'user group',
+                    source,
+                    targetId,
+                    'already assigned for enterprise ' +
+                        (existing.enterprise || 'none'),
+                );
+            return;
+        }
+        // The assignment grants the group's permissions in the enterprise
+        if (!assignGroups) {
+            run.skip(
+                'user group',
+                source,
+                'assigning groups needs users:admin',
+            );
+            return;
+        }
+        await run.create('user group', source, async () => {
+            await this.userGroups.create({
+                id: group.id,
+                username: ug.username,
+                name: group.name,
+                description: group.description,
+                enterprise: String(enterpriseId),
+            });
+            return {id: `${ug.username}/${group.id}`};
+        });
+    }
+}
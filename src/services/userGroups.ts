@@ -1,7 +1,4 @@
-import {v4 as uuid} from 'uuid';
-import {FsStore} from './fsStore';
-import {STORAGE_MODE} from '../config';
-import {withPg} from '../db';
+import {EntityMapping, Repository, RepositoryFactory} from '../repositories';
 
 export interface GroupRecord {
     id: string;
@@ -11,94 +8,47 @@ export interface GroupRecord {
     enterprise?: string;
 }
 
+// `id` is the assigned group's id, so it repeats across usernames
+export const userGroupMapping: EntityMapping<GroupRecord> = {
+    table: 'user_group',
+    schema: 'devops',
+    file: 'userGroups.json',
+    idColumn: 'group_id',
+    idStrategy: 'uuid',
+    fields: {
+        username: 'username',
+        name: 'name',
+        description: 'description',
+        enterprise: {column: 'enterprise_id', select: 'enterprise_id::text'},
+    },
+    fileKey: ['username', 'id'],
+    indexes: ['username'],
+};
+
 export class UserGroupsService {
-    private store: FsStore<GroupRecord>;
-    private readonly schema: string;
+    private repo: Repository<GroupRecord>;
 
-    constructor(dir: string) {
-        this.store = new FsStore<GroupRecord>(dir, 'userGroups.json');
-        this.schema = process.env.PGSCHEMA || 'devops';
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(userGroupMapping);
     }
 
     async list(username: string): Promise<GroupRecord[]> {
-        if (STORAGE_MODE === 'postgres') {
-            const rows = await withPg(async (c) => {
-                const res = await c.query(
-                    `select
-                        group_id as id,
-                        username,
-                        name,
-                        description,
-                        enterprise_id::text as enterprise
-                    from ${this.schema}.user_group
-                    where username=$1`,
-                    [username],
-                );
-                return res.rows as GroupRecord[];
-            });
-            return rows;
-        }
-        return this.store.readAll().filter((g) => g.username === username);
+        return this.repo.find({username});
     }
 
     async create(
         username: string,
         body: Omit<GroupRecord, 'username'> & {id?: string},
     ) {
-        if (STORAGE_MODE === 'postgres') {
-            const created = await withPg(async (c) => {
-                const id = body.id || uuid();
-                await c.query(
-                    `insert into ${this.schema}.user_group(
-                        group_id, username, name, description, enterprise_id
-                    ) values($1,$2,$3,$4,$5)`,
-                    [
-                        id,
-                        username,
-                        body.name,
-                        body.description || null,
-                        body.enterprise || null,
-                    ],
-                );
-                const {id: _omitId, ...rest} = body as any; return {id, username, ...rest} as GroupRecord;
-            });
-            return created;
-        }
-        const id = body.id || uuid();
-        const {id: _omitId, ...rest} = body as any;
-        const record: GroupRecord = {id, username, ...rest};
-        const next = [...this.store.readAll(), record];
-        this.store.writeAll(next);
-        return record;
+        const {id, ...rest} = body as any;
+        return this.repo.create({...rest, id, username});
     }
 
     async remove(id: string) {
-        if (STORAGE_MODE === 'postgres') {
-            await withPg(async (c) => {
-                await c.query(
-                    `delete from ${this.schema}.user_group where group_id=$1`,
-                    [id],
-                );
-            });
-            return;
-        }
-        const next = this.store.readAll().filter((g) => g.id !== id);
-        this.store.writeAll(next);
+        await this.repo.removeWhere({id});
     }
 
     async removeForUser(username: string, groupId: string) {
-        if (STORAGE_MODE === 'postgres') {
-            await withPg(async (c) => {
-                await c.query(
-                    `delete from ${this.schema}.user_group where username=$1 and group_id=$2`,
-                    [username, groupId],
-                );
-            });
-            return;
-        }
-        const next = this.store
-            .readAll()
-            .filter((g) => !(g.username === username && g.id === groupId));
-        this.store.writeAll(next);
+        await this.repo.removeWhere({username, id: groupId});
     }
 }
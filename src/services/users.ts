@@ -1,7 +1,19 @@
-import {v4 as uuid} from 'uuid';
-import {FsStore} from './fsStore';
+import {ConflictError, NotFoundError} from '../errors';
+import {
+    EntityMapping,
+    Page,
+    PageQuery,
+    ReadOptions,
+    Repository,
+    RepositoryFactory,
+    SOFT_DELETE_FIELDS,
+    SoftDeletable,
+    VERSION_FIELDS,
+    Versioned,
+    WriteOptions,
+} from '../repositories';
 
-export interface UserRecord {
+export interface UserRecord extends SoftDeletable, Versioned {
     id: string;
     username: string;
     firstName: string;
@@ -10,71 +22,152 @@ export interface UserRecord {
     email: string;
     status: 'ACTIVE' | 'INACTIVE';
     locked: boolean;
+    // Set for automatic locks; the lock lifts once this time has passed
+    lockedUntil?: string | null;
     startDate: string;
     endDate?: string | null;
     groupName: string;
+    // Account whose license seats the user takes while ACTIVE, if any
+    accountId?: number | null;
     updatedAt: string;
 }
 
+// What create and replace take; the lock fields are ignored
+export type UserInput = Omit<
+    UserRecord,
+    'id' | 'updatedAt' | 'locked' | 'lockedUntil'
+>;
+
+export const userMapping: EntityMapping<UserRecord> = {
+    table: 'users',
+    schema: 'devops',
+    file: 'users.json',
+    idColumn: 'user_id',
+    idStrategy: 'uuid',
+    fields: {
+        username: 'username',
+        firstName: 'first_name',
+        middleName: 'middle_name',
+        lastName: 'last_name',
+        email: 'email',
+        status: 'status',
+        locked: 'locked',
+        lockedUntil: 'locked_until',
+        startDate: 'start_date',
+        endDate: 'end_date',
+        groupName: 'group_name',
+        accountId: 'account_id',
+        updatedAt: {column: 'updated_at', timestamp: 'update'},
+        ...SOFT_DELETE_FIELDS,
+        ...VERSION_FIELDS,
+    },
+    search: ['username', 'firstName', 'lastName', 'email'],
+    indexes: ['email', 'username'],
+    softDelete: true,
+    versioned: true,
+};
+
 export class UsersService {
-    private store: FsStore<UserRecord>;
+    private repo: Repository<UserRecord>;
+
+    constructor(repositories: RepositoryFactory) {
+        this.repo = repositories.create(userMapping);
+    }
 
-    constructor(dir: string) {
-        this.store = new FsStore<UserRecord>(dir, 'users.json');
+    async list(options?: ReadOptions) {
+        return this.repo.list(options);
     }
 
-    list() {
-        return this.store.readAll();
+    async page(query: PageQuery): Promise<Page<UserRecord>> {
+        return this.repo.page(query);
     }
 
-    getById(id: string): UserRecord | undefined {
-        return this.store.readAll().find((u) => u.id === id);
+    async getById(id: string): Promise<UserRecord | null> {
+        return this.repo.get(id);
     }
 
-    getByEmail(email: string): UserRecord | undefined {
-        return this.store.readAll().find((u) => u.email === email);
+    async get(id: string, options?: ReadOptions): Promise<UserRecord> {
+        const found = await this.repo.get(id, options);
+        if (!found) throw new NotFoundError('user', id);
+        return found;
     }
 
-    create(body: Omit<UserRecord, 'id' | 'updatedAt'>) {
-        // filesystem only
-        const user: UserRecord = {
-            id: uuid(),
-            updatedAt: new Date().toISOString(),
-            ...body,
-        };
-        const next = [...this.store.readAll(), user];
-        this.store.writeAll(next);
-        return user;
+    async getByEmail(email: string): Promise<UserRecord | null> {
+        return this.repo.findOne({email});
     }
 
-    update(id: string, body: Omit<UserRecord, 'id' | 'updatedAt'>) {
-        // filesystem only
-        const all = this.store.readAll();
-        const idx = all.findIndex((a) => a.id === id);
-        if (idx === -1) return undefined;
-        all[idx] = {id, updatedAt: new Date().toISOString(), ...body};
-        this.store.writeAll(all);
-        return all[idx];
+    async getByUsername(username: string): Promise<UserRecord | null> {
+        return this.repo.findOne({username});
     }
 
-    partialUpdate(id: string, patch: Partial<Omit<UserRecord, 'id'>>) {
-        const all = this.store.readAll();
-        const idx = all.findIndex((a) => a.id === id);
-        if (idx === -1) return undefined;
-        const current = all[idx];
-        const updated: UserRecord = {
-            ...current,
-            ...patch,
+    // New users start unlocked
+    async create(body: UserInput) {
+        const {id: _omitId, updatedAt: _omitUpdatedAt, ...rest} = body as any;
+        delete rest.locked;
+        delete rest.lockedUntil;
+        if (await this.getByEmail(rest.email))
+            throw new ConflictError('email already exists', {
+                email: rest.email,
+            });
+        await this.assertUsernameFree(rest.username);
+        return this.repo.create({...rest, locked: false, lockedUntil: null});
+    }
+
+    // The username is the login name, the token's subject and the key of
+    // group memberships, so live users can't share one
+    private async assertUsernameFree(username: string, exceptId?: string) {
+        const holder = await this.getByUsername(username);
+        if (holder && holder.id !== exceptId)
+            throw new ConflictError('username already exists', {username});
+    }
+
+    // Replaces everything but the lock state, see LockoutService
+    async update(id: string, body: UserInput, options?: WriteOptions) {
+        const current = await this.get(id);
+        await this.assertUsernameFree(body.username, id);
+        const {locked: _locked, lockedUntil: _lockedUntil, ...rest} =
+            body as UserInput & Partial<UserRecord>;
+        const updated = await this.repo.replace(
             id,
-            updatedAt: new Date().toISOString(),
-        } as UserRecord;
-        all[idx] = updated;
-        this.store.writeAll(all);
+            {
+                ...rest,
+                locked: current.locked,
+                lockedUntil: current.lockedUntil ?? null,
+            } as any,
+            options,
+        );
+        if (!updated) throw new NotFoundError('user', id);
+        return updated;
+    }
+
+    async partialUpdate(
+        id: string,
+        patch: Partial<Omit<UserRecord, 'id'>>,
+        options?: WriteOptions,
+    ) {
+        if (patch.username !== undefined)
+            await this.assertUsernameFree(patch.username, id);
+        const updated = await this.repo.update(id, patch, options);
+        if (!updated) throw new NotFoundError('user', id);
         return updated;
     }
 
-    remove(id: string) {
-        const next = this.store.readAll().filter((e) => e.id !== id);
-        this.store.writeAll(next);
+    async remove(id: string, deletedBy: string | null = null): Promise<void> {
+        if (!(await this.repo.softRemove(id, deletedBy)))
+            throw new NotFoundError('user', id);
+    }
+
+    // Refused while a live user has taken over the email address or the
+    // username
+    async restore(id: string): Promise<UserRecord> {
+        const deleted = await this.repo.get(id, {includeDeleted: true});
+        if (deleted?.deletedAt && (await this.getByEmail(deleted.email)))
+            throw new ConflictError('email already exists', {
+                email: deleted.email,
+            });
+        if (deleted?.deletedAt) await this.assertUsernameFree(deleted.username);
+        const restored = await this.repo.restore(id);
+        if (!restored) throw new NotFoundError('deleted user', id);
+        return restored;
     }
 }